@@ -29,6 +29,10 @@
   const messageInput = document.getElementById('message-input');
   const sendButton = document.getElementById('send-button');
   const clearButton = document.getElementById('clear-button');
+  const historyButton = document.getElementById('history-button');
+  const historyPanel = document.getElementById('history-panel');
+  const historySearch = document.getElementById('history-search');
+  const historyList = document.getElementById('history-list');
   const modelStatus = document.getElementById('model-status');
   const modelName = document.getElementById('model-name');
   
@@ -65,6 +69,22 @@
       clearButton.addEventListener('click', clearChat);
     }
     
+    // Set up conversation history
+    if (historyButton) {
+      historyButton.addEventListener('click', toggleHistoryPanel);
+    }
+    
+    if (historySearch) {
+      let searchTimeout = null;
+      historySearch.addEventListener('input', () => {
+        // Debounce searches so we don't hit storage on every keystroke
+        clearTimeout(searchTimeout);
+        searchTimeout = setTimeout(() => {
+          vscode.postMessage({ command: 'listConversations', query: historySearch.value });
+        }, 250);
+      });
+    }
+    
     // Set up Change Model button
     const changeModelButton = document.getElementById('change-model-button');
     if (changeModelButton) {
@@ -298,10 +318,47 @@
     messageInput.value = '';
   }
   
+  // Split a code fence header such as "ts src/app.ts", "ts:src/app.ts" or
+  // "ts title=src/app.ts" into the language and the target file
+  function parseFenceHeader(header) {
+    let lang = '';
+    let filePath = '';
+    
+    for (const token of header.trim().split(/\s+/).filter(Boolean)) {
+      const attribute = token.match(/^(?:file|path|title)=["']?([^"']+)["']?$/);
+      if (attribute) {
+        filePath = attribute[1];
+      } else if (!lang && !filePath && /^\w+:.+/.test(token)) {
+        lang = token.substring(0, token.indexOf(':'));
+        filePath = token.substring(token.indexOf(':') + 1);
+      } else if (/[\/\\.]/.test(token)) {
+        filePath = token;
+      } else if (!lang) {
+        lang = token;
+      }
+    }
+    
+    return { lang, filePath };
+  }
+  
+  // Check whether a code block holds SEARCH/REPLACE edits or a unified diff
+  function isEditBlock(code, lang) {
+    if (lang === 'diff' || lang === 'patch') {
+      return true;
+    }
+    return /^<{5,9} ?SEARCH\s*$/m.test(code) || /^--- .*\r?\n\+\+\+ /m.test(code);
+  }
+  
   // Format message content with improved code highlighting
   function formatMessageContent(content) {
     // Replace code blocks with language detection and syntax highlighting
-    content = content.replace(/```(\w*)([\s\S]*?)```/g, (match, lang, code) => {
+    content = content.replace(/```([^\n`]*)([\s\S]*?)```/g, (match, header, code) => {
+      const fence = parseFenceHeader(header);
+      const filePath = fence.filePath;
+      let lang = fence.lang;
+      // Keep the indentation of the first line, which matters when applying the code
+      code = code.replace(/^\r?\n/, '').replace(/\s+$/, '');
+      
       // Enhanced language detection
       if (!lang || lang === '') {
         // JavaScript/TypeScript detection
@@ -381,8 +438,8 @@
       try {
         // Use Prism for syntax highlighting if available
         const highlighted = window.Prism ? 
-          window.Prism.highlight(code.trim(), window.Prism.languages[highlightLang] || {}, highlightLang) : 
-          escapeHTML(code.trim());
+          window.Prism.highlight(code, window.Prism.languages[highlightLang] || {}, highlightLang) : 
+          escapeHTML(code);
         
         // Create a container for the code block with line numbers
         const lines = highlighted.split('\n');
@@ -390,11 +447,16 @@
           return `<div class="line"><span class="line-number">${index + 1}</span><span class="line-content">${line}</span></div>`;
         }).join('\n');
         
-        // Add language tag and copy button to pre element
-        return `<pre data-language="${languageDisplay}"><div class="code-block-header"><button class="copy-code-button">Copy</button></div><code class="language-${highlightLang}">${numberedCode}</code></pre>`;
+        // Add language tag, target file and copy/apply buttons to pre element.
+        // Edit plans and diffs are applied through the proposed changes, not as plain code
+        const fileLabel = filePath ? `<span class="code-block-file">${escapeHTML(filePath)}</span>` : '';
+        const applyButton = isEditBlock(code, lang)
+          ? ''
+          : '<button class="apply-code-button" title="Preview and apply this change">Apply</button>';
+        return `<pre data-language="${languageDisplay}" data-file="${escapeHTML(filePath)}"><div class="code-block-header">${fileLabel}${applyButton}<button class="copy-code-button">Copy</button></div><code class="language-${highlightLang}">${numberedCode}</code></pre>`;
       } catch (e) {
         console.error('Error highlighting code:', e);
-        return `<pre data-language="${languageDisplay}"><code class="language-${highlightLang}">${escapeHTML(code.trim())}</code></pre>`;
+        return `<pre data-language="${languageDisplay}"><code class="language-${highlightLang}">${escapeHTML(code)}</code></pre>`;
       }
     });
     
@@ -433,7 +495,7 @@
     // Add timestamp element
     const timestamp = document.createElement('span');
     timestamp.classList.add('message-timestamp');
-    timestamp.textContent = new Date().toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'});
+    timestamp.textContent = new Date(message.timestamp || Date.now()).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'});
     headerElement.appendChild(timestamp);
     
     // Create message content
@@ -465,13 +527,13 @@
       insertButton.title = 'Insert at cursor position';
       insertButton.textContent = 'Insert';
       insertButton.addEventListener('click', () => {
-        const codeBlocks = contentElement.querySelectorAll('pre code');
+        const codeBlocks = contentElement.querySelectorAll('pre');
         
         if (codeBlocks.length > 0) {
           // Insert first code block
           vscode.postMessage({
             command: 'copyToEditor',
-            text: codeBlocks[0].textContent
+            text: getCodeBlockText(codeBlocks[0])
           });
         } else {
           // Insert full content
@@ -517,21 +579,40 @@
     return messageElement;
   }
   
-  // Add copy buttons to code blocks
+  // Get the text of a formatted code block without the line numbers
+  function getCodeBlockText(pre) {
+    const lines = pre.querySelectorAll('code .line-content');
+    if (lines.length === 0) {
+      const code = pre.querySelector('code');
+      return code ? code.textContent : '';
+    }
+    return Array.from(lines).map(line => line.textContent).join('\n');
+  }
+  
+  // Add copy and apply buttons to code blocks
   function addCopyButtonsToCodeBlocks(container) {
     const codeBlocks = container.querySelectorAll('pre');
     
     codeBlocks.forEach(pre => {
+      const applyButton = pre.querySelector('.apply-code-button');
+      if (applyButton) {
+        applyButton.addEventListener('click', (e) => {
+          e.stopPropagation();
+          vscode.postMessage({
+            command: 'applyCode',
+            text: getCodeBlockText(pre),
+            filePath: pre.dataset.file || undefined
+          });
+        });
+      }
+      
       const copyButton = pre.querySelector('.copy-code-button');
       if (copyButton) {
         copyButton.addEventListener('click', (e) => {
           e.stopPropagation();
           const code = pre.querySelector('code');
           if (code) {
-            // Get text content without the line numbers
-            const lines = code.querySelectorAll('.line-content');
-            const codeText = Array.from(lines).map(line => line.textContent).join('\n');
-            navigator.clipboard.writeText(codeText);
+            navigator.clipboard.writeText(getCodeBlockText(pre));
             
             // Visual feedback
             copyButton.textContent = 'Copied!';
@@ -659,7 +740,7 @@
     }
   }
   
-  // Clear chat
+  // Clear chat and start a new conversation
   function clearChat() {
     if (!messagesContainer) {return;}
     
@@ -668,6 +749,13 @@
       command: 'clearChat'
     });
     
+    resetChatView();
+  }
+  
+  // Reset the chat UI to the welcome screen without notifying the extension
+  function resetChatView() {
+    if (!messagesContainer) {return;}
+    
     // Clear UI
     while (messagesContainer.firstChild) {
       messagesContainer.removeChild(messagesContainer.firstChild);
@@ -701,6 +789,106 @@
     streamedMessageElement = null;
   }
   
+  // Show or hide the conversation history panel
+  function toggleHistoryPanel() {
+    if (!historyPanel) {return;}
+    
+    const isHidden = historyPanel.classList.toggle('hidden');
+    if (!isHidden) {
+      if (historySearch) {
+        historySearch.value = '';
+        historySearch.focus();
+      }
+      vscode.postMessage({ command: 'listConversations' });
+    }
+  }
+  
+  // Render the list of stored conversations
+  function renderConversationList(conversations, currentId) {
+    if (!historyList) {return;}
+    
+    historyList.innerHTML = '';
+    
+    if (!conversations || conversations.length === 0) {
+      const emptyElement = document.createElement('div');
+      emptyElement.classList.add('history-empty');
+      emptyElement.textContent = historySearch && historySearch.value ? 'No matching conversations' : 'No saved conversations yet';
+      historyList.appendChild(emptyElement);
+      return;
+    }
+    
+    conversations.forEach(conversation => {
+      const itemElement = document.createElement('div');
+      itemElement.classList.add('history-item');
+      if (conversation.id === currentId) {
+        itemElement.classList.add('active');
+      }
+      
+      const infoElement = document.createElement('div');
+      infoElement.classList.add('history-info');
+      
+      const titleElement = document.createElement('div');
+      titleElement.classList.add('history-title');
+      titleElement.textContent = conversation.title;
+      
+      const metaElement = document.createElement('div');
+      metaElement.classList.add('history-meta');
+      metaElement.textContent = `${new Date(conversation.updatedAt).toLocaleString()} · ${conversation.messageCount} messages`;
+      
+      infoElement.appendChild(titleElement);
+      infoElement.appendChild(metaElement);
+      infoElement.addEventListener('click', () => {
+        vscode.postMessage({ command: 'openConversation', id: conversation.id });
+      });
+      
+      // Rename button
+      const renameButton = document.createElement('button');
+      renameButton.classList.add('action-button');
+      renameButton.title = 'Rename conversation';
+      renameButton.textContent = 'Rename';
+      renameButton.addEventListener('click', (e) => {
+        e.stopPropagation();
+        vscode.postMessage({ command: 'renameConversation', id: conversation.id });
+      });
+      
+      // Delete button
+      const deleteButton = document.createElement('button');
+      deleteButton.classList.add('action-button');
+      deleteButton.title = 'Delete conversation';
+      deleteButton.textContent = 'Delete';
+      deleteButton.addEventListener('click', (e) => {
+        e.stopPropagation();
+        vscode.postMessage({ command: 'deleteConversation', id: conversation.id });
+      });
+      
+      itemElement.appendChild(infoElement);
+      itemElement.appendChild(renameButton);
+      itemElement.appendChild(deleteButton);
+      historyList.appendChild(itemElement);
+    });
+  }
+  
+  // Replace the visible chat with a stored conversation
+  function loadConversation(conversation) {
+    if (!messagesContainer) {return;}
+    
+    resetChatView();
+    
+    const messages = conversation.messages.filter(message => message.role === 'user' || message.role === 'assistant');
+    if (messages.length > 0) {
+      // Remove the welcome message
+      const welcomeMessage = messagesContainer.querySelector('.welcome-message');
+      if (welcomeMessage) {
+        welcomeMessage.remove();
+      }
+      messages.forEach(message => addMessage(message));
+    }
+    
+    if (historyPanel) {
+      historyPanel.classList.add('hidden');
+    }
+  }
+  
   // Update status display
   function updateStatus(status) {
     if (!modelStatus || !modelName) {
@@ -846,6 +1034,184 @@
     }, 3000);
   }
   
+  // Show the files and hunks proposed in a response, each with a checkbox to accept it
+  function showEditPlan(planId, files) {
+    if (!messagesContainer) {return;}
+    
+    const messageElement = messagesContainer.querySelector(`.message[data-id="${planId}"]`);
+    if (!messageElement) {return;}
+    
+    const planElement = document.createElement('div');
+    planElement.classList.add('edit-plan');
+    planElement.dataset.planId = planId;
+    
+    const title = document.createElement('div');
+    title.classList.add('edit-plan-title');
+    title.textContent = `Proposed changes (${files.length} file${files.length === 1 ? '' : 's'})`;
+    planElement.appendChild(title);
+    
+    const tree = document.createElement('ul');
+    tree.classList.add('edit-plan-tree');
+    
+    files.forEach(file => {
+      const fileItem = document.createElement('li');
+      fileItem.classList.add('edit-plan-file');
+      fileItem.dataset.filePath = file.filePath;
+      
+      const fileRow = document.createElement('div');
+      fileRow.classList.add('edit-plan-file-row');
+      
+      const fileCheckbox = document.createElement('input');
+      fileCheckbox.type = 'checkbox';
+      fileCheckbox.title = 'Accept all changes to this file';
+      
+      const fileName = document.createElement('button');
+      fileName.classList.add('edit-plan-file-name');
+      fileName.title = 'Preview the accepted changes in a diff';
+      fileName.textContent = file.filePath;
+      fileName.addEventListener('click', () => {
+        vscode.postMessage({
+          command: 'previewEditPlanFile',
+          planId,
+          filePath: file.filePath,
+          accepted: getAcceptedHunks(fileItem)
+        });
+      });
+      
+      fileRow.appendChild(fileCheckbox);
+      fileRow.appendChild(fileName);
+      if (file.isNew) {
+        const badge = document.createElement('span');
+        badge.classList.add('edit-plan-badge');
+        badge.textContent = file.outsideWorkspace ? 'outside workspace' : 'new';
+        fileRow.appendChild(badge);
+      }
+      fileItem.appendChild(fileRow);
+      
+      const hunkList = document.createElement('ul');
+      hunkList.classList.add('edit-plan-hunks');
+      
+      file.hunks.forEach((hunk, index) => {
+        const hunkItem = document.createElement('li');
+        hunkItem.classList.add('edit-plan-hunk');
+        
+        const hunkCheckbox = document.createElement('input');
+        hunkCheckbox.type = 'checkbox';
+        hunkCheckbox.dataset.hunkIndex = String(index);
+        hunkCheckbox.checked = hunk.applicable;
+        hunkCheckbox.disabled = !hunk.applicable;
+        hunkCheckbox.addEventListener('change', () => updateFileCheckbox(fileItem));
+        
+        const details = document.createElement('details');
+        const summary = document.createElement('summary');
+        const removed = hunk.search ? hunk.search.split('\n').length : 0;
+        const added = hunk.replace ? hunk.replace.split('\n').length : 0;
+        summary.textContent = `Change ${index + 1}: -${removed} +${added}` +
+          (hunk.applicable ? '' : ' (does not match the current file)');
+        details.appendChild(summary);
+        
+        const body = document.createElement('pre');
+        body.classList.add('edit-plan-hunk-body');
+        const diffLines = [
+          ...(hunk.search ? hunk.search.split('\n').map(line => `- ${line}`) : []),
+          ...(hunk.replace ? hunk.replace.split('\n').map(line => `+ ${line}`) : [])
+        ];
+        body.textContent = diffLines.join('\n');
+        details.appendChild(body);
+        
+        hunkItem.appendChild(hunkCheckbox);
+        hunkItem.appendChild(details);
+        hunkList.appendChild(hunkItem);
+      });
+      
+      fileCheckbox.addEventListener('change', () => {
+        hunkList.querySelectorAll('input[type="checkbox"]:not(:disabled)').forEach(checkbox => {
+          checkbox.checked = fileCheckbox.checked;
+        });
+        updateFileCheckbox(fileItem);
+      });
+      
+      fileItem.appendChild(hunkList);
+      tree.appendChild(fileItem);
+      updateFileCheckbox(fileItem);
+    });
+    
+    planElement.appendChild(tree);
+    
+    const actions = document.createElement('div');
+    actions.classList.add('edit-plan-actions');
+    
+    const applyButton = document.createElement('button');
+    applyButton.classList.add('action-button', 'edit-plan-apply');
+    applyButton.textContent = 'Apply selected';
+    applyButton.addEventListener('click', () => {
+      const accepted = {};
+      planElement.querySelectorAll('.edit-plan-file').forEach(fileItem => {
+        accepted[fileItem.dataset.filePath] = getAcceptedHunks(fileItem);
+      });
+      vscode.postMessage({
+        command: 'applyEditPlan',
+        planId,
+        accepted
+      });
+    });
+    
+    const discardButton = document.createElement('button');
+    discardButton.classList.add('action-button');
+    discardButton.textContent = 'Discard';
+    discardButton.addEventListener('click', () => {
+      vscode.postMessage({
+        command: 'discardEditPlan',
+        planId
+      });
+      closeEditPlan(planElement, 'Changes discarded');
+    });
+    
+    actions.appendChild(applyButton);
+    actions.appendChild(discardButton);
+    planElement.appendChild(actions);
+    
+    messageElement.appendChild(planElement);
+    messagesContainer.scrollTop = messagesContainer.scrollHeight;
+  }
+  
+  // Get the indexes of the checked hunks of a file in an edit plan
+  function getAcceptedHunks(fileItem) {
+    return Array.from(fileItem.querySelectorAll('.edit-plan-hunk input[type="checkbox"]'))
+      .filter(checkbox => checkbox.checked)
+      .map(checkbox => Number(checkbox.dataset.hunkIndex));
+  }
+  
+  // Reflect the state of a file's hunk checkboxes in its own checkbox
+  function updateFileCheckbox(fileItem) {
+    const fileCheckbox = fileItem.querySelector('.edit-plan-file-row input[type="checkbox"]');
+    const checkboxes = Array.from(fileItem.querySelectorAll('.edit-plan-hunk input[type="checkbox"]:not(:disabled)'));
+    const checkedCount = checkboxes.filter(checkbox => checkbox.checked).length;
+    fileCheckbox.disabled = checkboxes.length === 0;
+    fileCheckbox.checked = checkboxes.length > 0 && checkedCount === checkboxes.length;
+    fileCheckbox.indeterminate = checkedCount > 0 && checkedCount < checkboxes.length;
+  }
+  
+  // Disable an edit plan once it has been applied or discarded
+  function closeEditPlan(planElement, status) {
+    planElement.classList.add('closed');
+    planElement.querySelectorAll('input, .edit-plan-actions button').forEach(element => {
+      element.disabled = true;
+    });
+    const title = planElement.querySelector('.edit-plan-title');
+    if (title) {
+      title.textContent += ` – ${status}`;
+    }
+  }
+  
+  // Handle the result of applying an edit plan
+  function editPlanApplied(planId, applied) {
+    const planElement = document.querySelector(`.edit-plan[data-plan-id="${planId}"]`);
+    if (planElement && applied) {
+      closeEditPlan(planElement, 'Applied');
+    }
+  }
+  
   // Handle messages from extension
   window.addEventListener('message', (event) => {
     const message = event.data;
@@ -867,7 +1233,13 @@
         replaceStreamedResponse(message.message);
         break;
       case 'clearChat':
-        clearChat();
+        resetChatView();
+        break;
+      case 'conversationList':
+        renderConversationList(message.conversations, message.currentId);
+        break;
+      case 'loadConversation':
+        loadConversation(message.conversation);
         break;
       case 'updateStatus':
         updateStatus(message.status);
@@ -878,6 +1250,12 @@
       case 'showMessage':
         addMessage(message.message);
         break;
+      case 'showEditPlan':
+        showEditPlan(message.planId, message.files);
+        break;
+      case 'editPlanApplied':
+        editPlanApplied(message.planId, message.applied);
+        break;
     }
   });
   
@@ -1,33 +1,129 @@
 import * as vscode from 'vscode';
 import { DEFAULT_SETTINGS } from './constants';
+import { ModelRole } from '../models/interfaces';
+
+/**
+ * How inline completions send the code after the cursor:
+ * a named FIM template, Ollama's suffix field, auto-detection from the model name, or not at all
+ */
+export type FimTemplateSetting =
+  | 'auto'
+  | 'codellama'
+  | 'starcoder'
+  | 'deepseek-coder'
+  | 'qwen-coder'
+  | 'ollama-suffix'
+  | 'none';
+
+/**
+ * Whether inline completions fill the rest of the line or a whole block;
+ * 'auto' decides from the cursor position
+ */
+export type CompletionModeSetting = 'auto' | 'single-line' | 'multi-line';
+
+/**
+ * Provider, model and request options for one model role; unset fields use the main model settings
+ */
+export interface ModelRoleSettings {
+  provider?: 'ollama' | 'openai' | 'anthropic';
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  /** How long Ollama keeps the model loaded between requests, e.g. "30m" or "-1" */
+  keepAlive?: string;
+  /** Context window in tokens, replacing the one of the model (num_ctx for Ollama) */
+  contextWindow?: number;
+}
+
+/**
+ * Where embeddings for semantic code search are computed
+ */
+export type EmbeddingProviderName = 'ollama' | 'openai' | 'hash' | 'none';
+
+/**
+ * Provider and model for the embedding role; unset fields use the embedding settings
+ */
+export interface EmbeddingRoleSettings {
+  provider?: EmbeddingProviderName;
+  model?: string;
+}
+
+/**
+ * Settings of each model role
+ */
+export type ModelRolesSettings = Partial<Record<Exclude<ModelRole, 'embedding'>, ModelRoleSettings>> & {
+  embedding?: EmbeddingRoleSettings;
+};
+
+/**
+ * A provider to fall back to when the ones before it in the chain are unavailable
+ */
+export interface FallbackProviderSettings {
+  provider: 'ollama' | 'openai' | 'anthropic';
+  /** Ollama endpoint or OpenAI-compatible base URL of another server; empty uses the provider's settings */
+  endpoint?: string;
+  /** Empty uses the provider's configured model */
+  model?: string;
+}
 
 export interface LogCAIConfiguration {
   // Model Settings
   modelProvider: 'ollama' | 'openai' | 'anthropic';
   ollamaEndpoint: string;
   ollamaModel: string;
+  /** Extra headers sent with every Ollama request, e.g. for a reverse proxy */
+  ollamaHeaders: Record<string, string>;
+  /** How Ollama requests authenticate; the token or password is kept in Secret Storage */
+  ollamaAuthType: 'none' | 'bearer' | 'basic';
+  /** User name for basic authentication */
+  ollamaUsername: string;
+  /** Proxy for Ollama requests; empty uses the HTTP_PROXY and HTTPS_PROXY environment variables */
+  ollamaProxy: string;
+  /** PEM file with the CA certificates to trust for an HTTPS Ollama endpoint */
+  ollamaCaCertificates: string;
+  /** Accept self-signed and other untrusted certificates from the Ollama endpoint */
+  ollamaAllowUntrustedCertificates: boolean;
+  /** Seconds before an Ollama request times out; 0 waits indefinitely */
+  ollamaRequestTimeout: number;
   openaiApiKey: string;
   openaiModel: string;
+  openaiBaseUrl: string;
   anthropicApiKey: string;
   anthropicModel: string;
   temperature: number;
   maxTokens: number;
+  /** Separate models for chat, inline completion, embeddings and summarization */
+  modelRoles: ModelRolesSettings;
+  /** Providers tried in order when the provider of a role is unavailable */
+  fallbackChain: FallbackProviderSettings[];
   // Context Settings
   maxContextLength: number;
   includeImports: boolean;
   includeProjectStructure: boolean;
   maxFilesToProcess: number;
+  // RAG Settings
+  embeddingProvider: EmbeddingProviderName;
+  embeddingModel: string;
   // UI Settings
   enableInlineSuggestions: boolean;
+  /** Inline suggestions on or off by language ID, with "*" for all other languages */
+  inlineSuggestionLanguages: Record<string, boolean>;
+  /** Glob patterns of files that never get inline suggestions */
+  inlineSuggestionExclude: string[];
   completionTriggerChars: string;
   showModelStatus: boolean;
   inlinePreviewDelay: number;
   chatPanelPosition: 'right' | 'left';
   autoStartOllama: boolean; // New setting for auto-starting Ollama
+  /** Load the Ollama chat and completion models when the extension starts or the model changes */
+  warmUpModels: boolean;
   // Inline Suggestion Settings
   showInlinePreview: boolean;
   continueInlineOnAccept: boolean;
   inlineCompletionStop: string[];
+  fimTemplate: FimTemplateSetting;
+  /** Completion mode by language ID, with "*" for all other languages */
+  inlineCompletionMode: Record<string, CompletionModeSetting>;
   // Advanced Settings
   logLevel: 'error' | 'warn' | 'info' | 'debug';
   cacheTTL: number;
@@ -73,28 +169,46 @@ export class ConfigurationManager {
       modelProvider: this.config.get<'ollama' | 'openai' | 'anthropic'>('modelProvider', DEFAULT_SETTINGS.modelProvider),
       ollamaEndpoint: this.config.get<string>('ollamaEndpoint', DEFAULT_SETTINGS.ollamaEndpoint),
       ollamaModel: this.config.get<string>('ollamaModel', DEFAULT_SETTINGS.ollamaModel),
+      ollamaHeaders: this.config.get<Record<string, string>>('ollamaHeaders', DEFAULT_SETTINGS.ollamaHeaders),
+      ollamaAuthType: this.config.get<'none' | 'bearer' | 'basic'>('ollamaAuthType', DEFAULT_SETTINGS.ollamaAuthType),
+      ollamaUsername: this.config.get<string>('ollamaUsername', DEFAULT_SETTINGS.ollamaUsername),
+      ollamaProxy: this.config.get<string>('ollamaProxy', DEFAULT_SETTINGS.ollamaProxy),
+      ollamaCaCertificates: this.config.get<string>('ollamaCaCertificates', DEFAULT_SETTINGS.ollamaCaCertificates),
+      ollamaAllowUntrustedCertificates: this.config.get<boolean>('ollamaAllowUntrustedCertificates', DEFAULT_SETTINGS.ollamaAllowUntrustedCertificates),
+      ollamaRequestTimeout: this.config.get<number>('ollamaRequestTimeout', DEFAULT_SETTINGS.ollamaRequestTimeout),
       openaiApiKey: '', // Retrieved securely when needed
       openaiModel: this.config.get<string>('openaiModel', DEFAULT_SETTINGS.openaiModel),
+      openaiBaseUrl: this.config.get<string>('openaiBaseUrl', DEFAULT_SETTINGS.openaiBaseUrl),
       anthropicApiKey: '', // Retrieved securely when needed
       anthropicModel: this.config.get<string>('anthropicModel', DEFAULT_SETTINGS.anthropicModel),
       temperature: this.config.get<number>('temperature', DEFAULT_SETTINGS.temperature),
       maxTokens: this.config.get<number>('maxTokens', DEFAULT_SETTINGS.maxTokens),
+      modelRoles: this.config.get<ModelRolesSettings>('modelRoles', DEFAULT_SETTINGS.modelRoles),
+      fallbackChain: this.config.get<FallbackProviderSettings[]>('fallbackChain', DEFAULT_SETTINGS.fallbackChain),
       // Context Settings
       maxContextLength: this.config.get<number>('maxContextLength', DEFAULT_SETTINGS.maxContextLength),
       includeImports: this.config.get<boolean>('includeImports', DEFAULT_SETTINGS.includeImports),
       includeProjectStructure: this.config.get<boolean>('includeProjectStructure', DEFAULT_SETTINGS.includeProjectStructure),
       maxFilesToProcess: this.config.get<number>('maxFilesToProcess', DEFAULT_SETTINGS.maxFilesToProcess),
+      // RAG Settings
+      embeddingProvider: this.config.get<EmbeddingProviderName>('embeddingProvider', DEFAULT_SETTINGS.embeddingProvider),
+      embeddingModel: this.config.get<string>('embeddingModel', DEFAULT_SETTINGS.embeddingModel),
       // UI Settings
       enableInlineSuggestions: this.config.get<boolean>('enableInlineSuggestions', DEFAULT_SETTINGS.enableInlineSuggestions),
+      inlineSuggestionLanguages: this.config.get<Record<string, boolean>>('inlineSuggestionLanguages', DEFAULT_SETTINGS.inlineSuggestionLanguages),
+      inlineSuggestionExclude: this.config.get<string[]>('inlineSuggestionExclude', DEFAULT_SETTINGS.inlineSuggestionExclude),
       completionTriggerChars: this.config.get<string>('completionTriggerChars', DEFAULT_SETTINGS.completionTriggerChars),
       showModelStatus: this.config.get<boolean>('showModelStatus', DEFAULT_SETTINGS.showModelStatus),
       inlinePreviewDelay: this.config.get<number>('inlinePreviewDelay', DEFAULT_SETTINGS.inlinePreviewDelay),
       chatPanelPosition: this.config.get<'right' | 'left'>('chatPanelPosition', DEFAULT_SETTINGS.chatPanelPosition),
       autoStartOllama: this.config.get<boolean>('autoStartOllama', DEFAULT_SETTINGS.autoStartOllama),
+      warmUpModels: this.config.get<boolean>('warmUpModels', DEFAULT_SETTINGS.warmUpModels),
       // Inline Suggestion Settings
       showInlinePreview: this.config.get<boolean>('showInlinePreview', DEFAULT_SETTINGS.showInlinePreview),
       continueInlineOnAccept: this.config.get<boolean>('continueInlineOnAccept', DEFAULT_SETTINGS.continueInlineOnAccept),
       inlineCompletionStop: this.config.get<string[]>('inlineCompletionStop', DEFAULT_SETTINGS.inlineCompletionStop),
+      fimTemplate: this.config.get<FimTemplateSetting>('fimTemplate', DEFAULT_SETTINGS.fimTemplate),
+      inlineCompletionMode: this.config.get<Record<string, CompletionModeSetting>>('inlineCompletionMode', DEFAULT_SETTINGS.inlineCompletionMode),
       // Advanced Settings
       logLevel: this.config.get<'error' | 'warn' | 'info' | 'debug'>('logLevel', DEFAULT_SETTINGS.logLevel),
       cacheTTL: this.config.get<number>('cacheTTL', DEFAULT_SETTINGS.cacheTTL)
@@ -106,11 +220,38 @@ export class ConfigurationManager {
     return this.config.get<string>('modelProvider', DEFAULT_SETTINGS.modelProvider);
   }
   
+  /**
+   * Get the settings of a model role; empty when the role uses the main model
+   */
+  getModelRole(role: 'embedding'): EmbeddingRoleSettings;
+  getModelRole(role: Exclude<ModelRole, 'embedding'>): ModelRoleSettings;
+  getModelRole(role: ModelRole): ModelRoleSettings | EmbeddingRoleSettings;
+  getModelRole(role: ModelRole): ModelRoleSettings | EmbeddingRoleSettings {
+    const roles = this.config.get<ModelRolesSettings>('modelRoles', DEFAULT_SETTINGS.modelRoles);
+    return roles[role] ?? {};
+  }
+  
   getCompletionTriggerCharacters(): string[] {
     const chars = this.config.get<string>('completionTriggerChars', DEFAULT_SETTINGS.completionTriggerChars);
     return chars.split('');
   }
 
+  /**
+   * Whether inline suggestions are enabled for a language
+   */
+  isInlineSuggestionEnabledForLanguage(languageId: string): boolean {
+    const languages = this.config.get<Record<string, boolean>>('inlineSuggestionLanguages', DEFAULT_SETTINGS.inlineSuggestionLanguages);
+    return languages[languageId] ?? languages['*'] ?? true;
+  }
+
+  /**
+   * Get the inline completion mode for a language
+   */
+  getCompletionMode(languageId: string): CompletionModeSetting {
+    const modes = this.config.get<Record<string, CompletionModeSetting>>('inlineCompletionMode', DEFAULT_SETTINGS.inlineCompletionMode);
+    return modes[languageId] ?? modes['*'] ?? 'auto';
+  }
+
   // Add a generic method to get any setting with proper TypeScript typing
   getSetting<T>(key: string, defaultValue?: T): T | undefined {
     const value = this.config.get<T>(key);
@@ -126,6 +267,13 @@ export class ConfigurationManager {
     return this.secretStorage.get('logcai.anthropicApiKey');
   }
   
+  /**
+   * Get the bearer token or basic auth password for Ollama
+   */
+  async getOllamaCredential(): Promise<string | undefined> {
+    return this.secretStorage.get('logcai.ollamaCredential');
+  }
+  
   // Set API keys securely
   async setOpenAIApiKey(key: string): Promise<void> {
     await this.secretStorage.store('logcai.openaiApiKey', key);
@@ -135,6 +283,14 @@ export class ConfigurationManager {
     await this.secretStorage.store('logcai.anthropicApiKey', key);
   }
   
+  async setOllamaCredential(credential: string): Promise<void> {
+    await this.secretStorage.store('logcai.ollamaCredential', credential);
+  }
+  
+  async deleteOllamaCredential(): Promise<void> {
+    await this.secretStorage.delete('logcai.ollamaCredential');
+  }
+  
   /**
    * Update a configuration setting
    */
@@ -6,28 +6,46 @@ export const DEFAULT_SETTINGS: LogCAIConfiguration = {
   modelProvider: 'ollama',
   ollamaEndpoint: 'http://localhost:11434',
   ollamaModel: '', // Changed from 'stable-code' to empty string
+  ollamaHeaders: {},
+  ollamaAuthType: 'none',
+  ollamaUsername: '',
+  ollamaProxy: '', // Empty uses the proxy environment variables
+  ollamaCaCertificates: '', // Empty trusts the system's CA certificates
+  ollamaAllowUntrustedCertificates: false,
+  ollamaRequestTimeout: 300, // Large models can take minutes to load and answer
   openaiApiKey: '',
   openaiModel: 'gpt-4o',
+  openaiBaseUrl: 'https://api.openai.com/v1', // Any OpenAI-compatible server (llama.cpp, vLLM, LM Studio)
   anthropicApiKey: '',
   anthropicModel: 'claude-3-opus-20240229',
   temperature: 0.2,
   maxTokens: 2048,
+  modelRoles: {}, // Every role uses the main provider and model
+  fallbackChain: [], // No fallback: requests fail when the provider is unavailable
   // Context Settings
   maxContextLength: 4000,
   includeImports: true,
   includeProjectStructure: true,
   maxFilesToProcess: 20,
+  // RAG Settings
+  embeddingProvider: 'ollama',
+  embeddingModel: '', // Empty uses the provider default (nomic-embed-text / text-embedding-3-small)
   // UI Settings
   enableInlineSuggestions: true,
+  inlineSuggestionLanguages: { '*': true, markdown: false, plaintext: false },
+  inlineSuggestionExclude: ['**/.env', '**/.env.*', '**/*.pem', '**/*.key'], // Files that may hold secrets
   completionTriggerChars: ' .({[',
   showModelStatus: true,
   inlinePreviewDelay: 0.2,
   chatPanelPosition: 'right',
   autoStartOllama: true, // New setting for auto-starting Ollama
+  warmUpModels: true, // Avoid the model loading delay on the first request
   // Inline Suggestion Settings
   showInlinePreview: true, // Show preview before full completion
   continueInlineOnAccept: true, // Continue generating more text when accepting suggestion
   inlineCompletionStop: ['```'], // Stop sequences for inline completions
+  fimTemplate: 'auto', // Fill-in-the-middle format, detected from the model name
+  inlineCompletionMode: { '*': 'auto' }, // Single- or multi-line completions, by language
   // Advanced Settings
   logLevel: 'info',
   cacheTTL: 3600 // 1 hour in seconds
@@ -35,17 +53,36 @@ export const DEFAULT_SETTINGS: LogCAIConfiguration = {
 
 // Prompts
 export const PROMPTS = {
+  CHAT_SYSTEM:
+  `You are LogCAI, an intelligent coding assistant running inside VS Code.
+Answer the user's questions about their code clearly and concisely.
+Use fenced code blocks with a language tag for any code you write.
+Project: {PROJECT_NAME}`,
+  EDIT_PLAN_FORMAT:
+  `When you propose changes to files, write each change as a SEARCH/REPLACE block inside a fenced code block,
+with the file path relative to the workspace root on the line before the fence:
+path/to/file.ts
+\`\`\`ts
+<<<<<<< SEARCH
+exact lines from the current file
+=======
+replacement lines
+>>>>>>> REPLACE
+\`\`\`
+Use an empty SEARCH section to create a new file. Unified diffs are also accepted.`,
   CODE_COMPLETION:
-  `You are an intelligent coding assistant. Complete the code based on the context provided.
-Think step by step to ensure the completion is correct and follows best practices.
+  `You are an intelligent coding assistant. Complete the code at the cursor based on the context provided.
+Respond with only the code to insert at the cursor, without explanations or code fences.
 File: {FILE_NAME}
 Language: {LANGUAGE}
 Project: {PROJECT_NAME}
 Context:
 {CONTEXT}
 
-Code to complete:
-{CODE}`,
+Code before the cursor:
+{CODE}
+Code after the cursor:
+{SUFFIX}`,
   CODE_EXPLANATION:
   `You are an intelligent coding assistant. Explain the following code in a clear and concise manner.
 Identify key patterns, algorithms, and concepts used.
@@ -63,6 +100,9 @@ Code to explain:
 File: {FILE_NAME}
 Language: {LANGUAGE}
 Project: {PROJECT_NAME}
+Context:
+{CONTEXT}
+
 Code to refactor:
 {CODE}`,
   ERROR_FIXING:
@@ -70,6 +110,9 @@ Code to refactor:
 File: {FILE_NAME}
 Language: {LANGUAGE}
 Project: {PROJECT_NAME}
+Context:
+{CONTEXT}
+
 Error message:
 {ERROR_MESSAGE}
 Code with error:
@@ -80,13 +123,28 @@ File: {FILE_NAME}
 Language: {LANGUAGE}
 Project: {PROJECT_NAME}
 Code to test:
-{CODE}`
+{CODE}`,
+  DOCUMENTATION:
+  `You are an intelligent coding assistant. Add documentation comments to the following code
+using the idiomatic doc comment style for the language. Do not change the code itself.
+File: {FILE_NAME}
+Language: {LANGUAGE}
+Project: {PROJECT_NAME}
+Context:
+{CONTEXT}
+
+Code to document:
+{CODE}`,
+  CODE_ONLY_RESPONSE:
+  `Respond with only the complete updated code in a single fenced code block, without explanations.`
 };
 
 // Error messages
 export const ERROR_MESSAGES = {
   OLLAMA_CONNECTION: "Could not connect to Ollama server. Please ensure Ollama is running and the endpoint is correct.",
   API_KEY_MISSING: "API key is missing. Please add your API key in the extension settings.",
+  RATE_LIMITED: "The model provider is rate limiting requests. Please wait a moment and try again.",
+  PROVIDER_OVERLOADED: "The model provider is temporarily overloaded. Please try again shortly.",
   MODEL_UNAVAILABLE: "The selected model is not available. Please check your configuration.",
   REQUEST_FAILED: "The request to the model provider failed. Please check your connection and try again.",
   CONTEXT_EXTRACTION: "Failed to extract context from the current file or project."
@@ -104,5 +162,7 @@ export const COMMANDS = {
 // WebView panel IDs
 export const WEBVIEW = {
   CHAT_PANEL_ID: "logcai.chatPanel",
-  CHAT_PANEL_TITLE: "LogCAI Chat"
+  CHAT_PANEL_TITLE: "LogCAI Chat",
+  STATS_PANEL_ID: "logcai.statsPanel",
+  STATS_PANEL_TITLE: "LogCAI Inline Suggestion Stats"
 };
\ No newline at end of file
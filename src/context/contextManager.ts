@@ -539,10 +539,13 @@ export class ContextManager {
 
   /**
    * Get all relevant context for a given document and position
+   * @param maxLength Maximum characters of context, e.g. the share of the model's
+   * context window it may use; defaults to the maxContextLength setting
    */
   async getFullContext(
     document: vscode.TextDocument,
-    position: vscode.Position
+    position: vscode.Position,
+    maxLength: number = this.maxContextLength
   ): Promise<string> {
     try {
       // Collect context information from various sources
@@ -571,9 +574,9 @@ export class ContextManager {
         formattedContext += `=== Project structure ===\n${projectStructure}\n`;
       }
       // Limit context length if needed
-      if (formattedContext.length > this.maxContextLength) {
-        log.info(`Context exceeds max length (${formattedContext.length} > ${this.maxContextLength}). Truncating...`);
-        formattedContext = formattedContext.substring(0, this.maxContextLength);
+      if (formattedContext.length > maxLength) {
+        log.info(`Context exceeds max length (${formattedContext.length} > ${maxLength}). Truncating...`);
+        formattedContext = formattedContext.substring(0, maxLength);
       }
       return formattedContext;
     } catch (error) {
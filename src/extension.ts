@@ -8,11 +8,17 @@ import { InlineSuggestionProvider } from './ui/inlineSuggestions';
 import { StatusBarManager } from './ui/statusBar';
 import { RAGService } from './storage/ragService';
 import { VectorStorage } from './storage/vectorStorage';
+import { SessionStorage } from './storage/sessionStorage';
+import { MetricsStorage } from './storage/metricsStorage';
 import { handleError } from './utils/errorHandler';
 import { log } from './utils/logging';
 import { initializeLogging, LogLevel, getLogLevelFromString } from './utils/logging';
 import { ModelManagerUI } from './ui/modelManager';
 import { DiagnosticsService } from './utils/diagnostics';
+import { DiffPreview } from './ui/diffPreview';
+import { CodeOperations } from './ui/codeOperations';
+import { StatsPanel } from './ui/statsPanel';
+import { ModelsTreeProvider, ModelTreeItem } from './ui/modelsView';
 // Main extension state
 export class LogCAIExtension {
 // Use the ! non-null assertion operator
@@ -23,8 +29,13 @@ private chatPanel: ChatPanel | undefined;
 private inlineSuggestionProvider!: InlineSuggestionProvider;
 private statusBar!: StatusBarManager;
 private ragService!: RAGService;
+private sessionStorage!: SessionStorage;
+private metricsStorage!: MetricsStorage;
 private modelManagerUI!: ModelManagerUI;
+private modelsView!: ModelsTreeProvider;
 private diagnosticsService!: DiagnosticsService;
+private diffPreview!: DiffPreview;
+private codeOperations!: CodeOperations;
 private disposables: vscode.Disposable[] = [];
 
 constructor(private context: vscode.ExtensionContext) {
@@ -60,6 +71,8 @@ private async initializeComponents(): Promise<void> {
     this.contextManager = new ContextManager(this.configManager);
     this.statusBar = new StatusBarManager(this.modelManager);
     this.modelManagerUI = new ModelManagerUI(this.modelManager, this.configManager);
+    this.modelsView = new ModelsTreeProvider(this.modelManager);
+    this.disposables.push(this.modelsView);
     this.diagnosticsService = new DiagnosticsService(this.configManager,
     this.modelManager);
 
@@ -69,11 +82,28 @@ private async initializeComponents(): Promise<void> {
       handleError(error as Error, "Failed to initialize RAG service");
     });
     
+    // Initialize conversation history storage
+    this.sessionStorage = new SessionStorage(this.context);
+    await this.sessionStorage.initialize().catch(error => {
+      handleError(error as Error, "Failed to initialize session storage");
+    });
+    
+    // Inline suggestion metrics stay on this machine
+    this.metricsStorage = new MetricsStorage(this.context);
+    this.metricsStorage.initialize();
+    this.disposables.push(this.metricsStorage);
+    
+    // Proposed edits from the chat and selection commands are previewed in a diff
+    this.diffPreview = new DiffPreview();
+    this.disposables.push(this.diffPreview);
+    
     // Use the static method instead of constructor for ChatPanel
     this.chatPanel = ChatPanel.createOrShow(
       this.context,
       this.modelManager,
       this.contextManager,
+      this.sessionStorage,
+      this.diffPreview,
       this.ragService
     );
     
@@ -82,6 +112,29 @@ private async initializeComponents(): Promise<void> {
       this.contextManager,
       this.configManager
     );
+    // Inline completions report progress and failures in the status bar only
+    this.disposables.push(
+      this.inlineSuggestionProvider.onCompletionStateChanged(state => this.statusBar.setCompletionState(state)),
+      this.inlineSuggestionProvider.onSuggestionEvent(event => this.metricsStorage.record(event))
+    );
+    
+    // Selection commands stream into the chat panel or preview edits in a diff
+    this.codeOperations = new CodeOperations(
+      this.modelManager,
+      this.contextManager,
+      this.diffPreview,
+      () => {
+        this.chatPanel = ChatPanel.createOrShow(
+          this.context,
+          this.modelManager,
+          this.contextManager,
+          this.sessionStorage,
+          this.diffPreview,
+          this.ragService
+        );
+        return this.chatPanel;
+      }
+    );
     
     // Register all services
     await this.registerServices();
@@ -166,6 +219,9 @@ private async registerServices(): Promise<void> {
     // Register the webview provider
     const webviewRegistration = vscode.window.registerWebviewViewProvider('logcai.welcome', provider);
     this.disposables.push(webviewRegistration);
+    
+    // Installed Ollama models in the sidebar
+    this.disposables.push(vscode.window.registerTreeDataProvider('logcai.models', this.modelsView));
 
     // Get existing commands to avoid registration conflicts
     const existingCommands = await vscode.commands.getCommands(true);
@@ -208,6 +264,8 @@ private async registerServices(): Promise<void> {
             this.context,
             this.modelManager,
             this.contextManager,
+            this.sessionStorage,
+            this.diffPreview,
             this.ragService
           );
           
@@ -220,8 +278,25 @@ private async registerServices(): Promise<void> {
           vscode.window.showErrorMessage("Failed to open chat panel");
         }
       }),      
-      registerCommand('logcai.getInlineCompletion', (textEditor: vscode.TextEditor) => {
-        this.inlineSuggestionProvider.provideInlineCompletion(textEditor);
+      registerCommand('logcai.getInlineCompletion', () => {
+        const textEditor = vscode.window.activeTextEditor;
+        if (textEditor) {
+          this.inlineSuggestionProvider.provideInlineCompletion(textEditor);
+        }
+      }),
+      registerCommand('logcai.inlineSuggestionAccepted', suggestion => {
+        return this.inlineSuggestionProvider.handleSuggestionAccepted(suggestion);
+      }),
+      registerCommand('logcai.acceptNextWord', () => {
+        const textEditor = vscode.window.activeTextEditor;
+        return textEditor && this.inlineSuggestionProvider.acceptPartialSuggestion(textEditor, 'word');
+      }),
+      registerCommand('logcai.acceptNextLine', () => {
+        const textEditor = vscode.window.activeTextEditor;
+        return textEditor && this.inlineSuggestionProvider.acceptPartialSuggestion(textEditor, 'line');
+      }),
+      registerCommand('logcai.showStats', () => {
+        StatsPanel.createOrShow(this.metricsStorage);
       }),
       registerCommand('logcai.indexCodebase', () => {
         this.ragService.triggerCodebaseIndexing();
@@ -240,14 +315,63 @@ private async registerServices(): Promise<void> {
       registerCommand('logcai.selectModelProvider', () => {
         this.modelManagerUI.selectModelProvider();
       }),
+      registerCommand('logcai.setOpenAIApiKey', () => {
+        this.modelManagerUI.promptApiKey('openai');
+      }),
+      registerCommand('logcai.setAnthropicApiKey', () => {
+        this.modelManagerUI.promptApiKey('anthropic');
+      }),
+      registerCommand('logcai.setOllamaCredentials', () => {
+        this.modelManagerUI.promptOllamaCredentials();
+      }),
       registerCommand('logcai.selectOllamaModel', () => {
         this.modelManagerUI.selectOllamaModel();
       }),
       registerCommand('logcai.installOllamaModel', () => {
         this.modelManagerUI.promptInstallOllamaModel();
       }),
+      registerCommand('logcai.refreshModels', () => {
+        this.modelsView.refresh();
+      }),
+      registerCommand('logcai.setChatModel', (item: ModelTreeItem) => {
+        return item.modelName && this.modelManagerUI.setOllamaModelForRole(item.modelName, 'chat');
+      }),
+      registerCommand('logcai.setCompletionModel', (item: ModelTreeItem) => {
+        return item.modelName && this.modelManagerUI.setOllamaModelForRole(item.modelName, 'completion');
+      }),
+      registerCommand('logcai.copyOllamaModel', async (item: ModelTreeItem) => {
+        if (item.modelName && await this.modelManagerUI.copyOllamaModel(item.modelName)) {
+          this.modelsView.refresh();
+        }
+      }),
+      registerCommand('logcai.deleteOllamaModel', async (item: ModelTreeItem) => {
+        if (item.modelName && await this.modelManagerUI.deleteOllamaModel(item.modelName)) {
+          this.modelsView.refresh();
+        }
+      }),
+      registerCommand('logcai.showModelfile', (item: ModelTreeItem) => {
+        return item.modelName && this.modelManagerUI.showModelfile(item.modelName);
+      }),
+      registerCommand('logcai.unloadModel', (item?: ModelTreeItem) => {
+        return this.modelManagerUI.unloadModel(item?.modelName);
+      }),
       registerCommand('logcai.runDiagnostics', () => {
         this.diagnosticsService.runDiagnostics();
+      }),
+      registerCommand('logcai.explainSelection', () => {
+        return this.codeOperations.explainSelection();
+      }),
+      registerCommand('logcai.refactorSelection', () => {
+        return this.codeOperations.refactorSelection();
+      }),
+      registerCommand('logcai.fixError', () => {
+        return this.codeOperations.fixError();
+      }),
+      registerCommand('logcai.generateTests', () => {
+        return this.codeOperations.generateTests();
+      }),
+      registerCommand('logcai.generateDocs', () => {
+        return this.codeOperations.generateDocs();
       })
     ];
     
@@ -273,6 +397,8 @@ private async registerServices(): Promise<void> {
           this.modelManager.refreshConfiguration();
           this.contextManager.refreshConfiguration();
           this.inlineSuggestionProvider.refreshConfiguration();
+          this.ragService.refreshConfiguration();
+          this.modelsView.refresh();
         }
       })
     );
@@ -296,6 +422,11 @@ dispose(): void {
   if (this.modelManager) {
     this.modelManager.dispose();
   }
+
+  // Flush pending index writes so they survive the shutdown
+  if (this.ragService) {
+    this.ragService.dispose();
+  }
 }
 
 resetChatPanel(): void {
@@ -0,0 +1,59 @@
+/**
+ * A fill-in-the-middle prompt format for a family of code models
+ */
+export interface FimTemplate {
+  id: string;
+  /** Matched against the model name to select the template automatically */
+  modelPattern: RegExp;
+  /** Build the raw prompt; the model generates the text between prefix and suffix */
+  build(prefix: string, suffix: string): string;
+  /** Special tokens that end the middle section */
+  stopSequences: string[];
+}
+
+/**
+ * Registry of known FIM formats, checked in order
+ */
+export const FIM_TEMPLATES: FimTemplate[] = [
+  {
+    id: 'codellama',
+    modelPattern: /code-?llama/i,
+    build: (prefix, suffix) => `<PRE> ${prefix} <SUF>${suffix} <MID>`,
+    stopSequences: ['<EOT>', '<PRE>', '<SUF>', '<MID>']
+  },
+  {
+    id: 'starcoder',
+    modelPattern: /starcoder/i,
+    build: (prefix, suffix) => `<fim_prefix>${prefix}<fim_suffix>${suffix}<fim_middle>`,
+    stopSequences: ['<|endoftext|>', '<fim_prefix>', '<fim_suffix>', '<fim_middle>', '<file_sep>']
+  },
+  {
+    id: 'deepseek-coder',
+    modelPattern: /deepseek-coder/i,
+    build: (prefix, suffix) => `<｜fim▁begin｜>${prefix}<｜fim▁hole｜>${suffix}<｜fim▁end｜>`,
+    stopSequences: ['<｜fim▁begin｜>', '<｜fim▁hole｜>', '<｜fim▁end｜>', '<｜end▁of▁sentence｜>', '<|EOT|>']
+  },
+  {
+    id: 'qwen-coder',
+    modelPattern: /qwen[\d.]*-?coder/i,
+    build: (prefix, suffix) => `<|fim_prefix|>${prefix}<|fim_suffix|>${suffix}<|fim_middle|>`,
+    stopSequences: [
+      '<|endoftext|>', '<|fim_prefix|>', '<|fim_suffix|>', '<|fim_middle|>',
+      '<|fim_pad|>', '<|repo_name|>', '<|file_sep|>', '<|im_start|>', '<|im_end|>'
+    ]
+  }
+];
+
+/**
+ * Find the FIM template for a model name
+ */
+export function findFimTemplate(model: string): FimTemplate | undefined {
+  return FIM_TEMPLATES.find(template => template.modelPattern.test(model));
+}
+
+/**
+ * Get a FIM template by ID
+ */
+export function getFimTemplate(id: string): FimTemplate | undefined {
+  return FIM_TEMPLATES.find(template => template.id === id);
+}
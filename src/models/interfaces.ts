@@ -5,13 +5,22 @@ export interface ModelProvider {
   readonly id: string;
   readonly name: string;
   isAvailable(): Promise<boolean>;
-  getCompletion(prompt: string, options?: ModelRequestOptions): Promise<string>;
+  /** Check that the provider responds, without prompts or notifications */
+  isReachable(): Promise<boolean>;
+  getCompletion(prompt: string, options?: ModelRequestOptions, token?: vscode.CancellationToken): Promise<string>;
   streamCompletion(
     prompt: string, 
     callback: (text: string, final: boolean) => void, 
     token?: vscode.CancellationToken,
     options?: ModelRequestOptions
   ): Promise<void>;
+  chat(messages: ChatMessage[], options?: ModelRequestOptions, token?: vscode.CancellationToken): Promise<string>;
+  streamChat(
+    messages: ChatMessage[],
+    callback: (text: string, final: boolean) => void,
+    token?: vscode.CancellationToken,
+    options?: ModelRequestOptions
+  ): Promise<void>;
 }
 
 // Model request options
@@ -22,9 +31,53 @@ export interface ModelRequestOptions {
   topP?: number;
   frequencyPenalty?: number;
   presencePenalty?: number;
+  /** Context window in tokens, sent as num_ctx (Ollama only) */
   contextWindow?: number;
+  /** Code after the cursor for fill-in-the-middle completion (Ollama only) */
+  suffix?: string;
+  /** Send the prompt as-is, bypassing the model's prompt template (Ollama only) */
+  raw?: boolean;
+  /** Background request: no progress notification or error toasts; the caller reports the outcome */
+  silent?: boolean;
+  /** Model to use instead of the provider's configured model */
+  model?: string;
+  /** Model role that routes the request; defaults to the role of the method called */
+  role?: ModelRole;
+  /** How long Ollama keeps the model loaded after the request, e.g. "10m", or "-1" to keep it loaded (Ollama only) */
+  keepAlive?: string;
+}
+
+// What a model is used for; each role can use its own provider and model
+export type ModelRole = 'chat' | 'completion' | 'embedding' | 'summarization';
+
+// Provider and model that handle a role
+export interface ModelRoleAssignment {
+  role: ModelRole;
+  providerId: string;
+  providerName: string;
+  /** Empty when the provider's default model is used */
+  model: string;
+  /** Request options configured for the role */
+  options: ModelRequestOptions;
+  isAvailable: boolean;
 }
 
+/**
+ * The provider and model a request is sent to
+ */
+export interface ModelTarget {
+  providerId: string;
+  /** Empty when the provider's default model is used */
+  model: string;
+}
+
+/**
+ * Builds a completion prompt for the provider and model it is sent to, for prompts that only
+ * work with some providers, such as raw fill-in-the-middle prompts.
+ * The options replace the request options, except for the model.
+ */
+export type CompletionRequestBuilder = (target: ModelTarget) => Promise<{ prompt: string; options: ModelRequestOptions }>;
+
 // Context information
 export interface ContextInfo {
   content: string;
@@ -46,6 +99,8 @@ export interface ChatMessage {
 export interface Conversation {
   id: string;
   title: string;
+  /** Whether the title was generated from the first message or chosen by the user */
+  titleSet?: boolean;
   messages: ChatMessage[];
   createdAt: number;
   updatedAt: number;
@@ -56,6 +111,8 @@ export interface ModelStatus {
   isAvailable: boolean;
   modelName: string;
   providerName: string;
+  /** Name of the unavailable provider that a fallback provider stands in for */
+  fallbackFrom?: string;
 }
 
 // Inline suggestion
@@ -64,6 +121,25 @@ export interface InlineSuggestion {
   range: vscode.Range;
 }
 
+// Something that happened to an inline suggestion, recorded in the local metrics
+export interface SuggestionEvent {
+  type: 'shown' | 'accepted' | 'dismissed' | 'completed';
+  languageId: string;
+  model: string;
+  /** How much of the suggestion was accepted ('accepted' only) */
+  kind?: 'full' | 'word' | 'line';
+  /** Number of characters accepted ('accepted' only) */
+  characters?: number;
+  /** Time the model took to respond ('completed' only) */
+  latencyMs?: number;
+}
+
+// State of background inline completion requests
+export interface InlineCompletionState {
+  status: 'idle' | 'loading' | 'error';
+  error?: string;
+}
+
 // Types of code operations
 export enum CodeOperationType {
   COMPLETION = 'completion',
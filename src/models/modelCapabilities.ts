@@ -0,0 +1,166 @@
+import { log } from '../utils/logging';
+
+// Context window assumed for models that aren't known; small enough for most servers
+const DEFAULT_CONTEXT_WINDOW = 4096;
+// Ollama's num_ctx when the Modelfile doesn't set one. Larger windows need more memory,
+// so the model's full context length is only used when the Modelfile or the role asks for it.
+const OLLAMA_DEFAULT_CONTEXT_WINDOW = 4096;
+// Rough number of characters per token in code and English text, erring on the small side
+const CHARS_PER_TOKEN = 3;
+
+/**
+ * What a model supports and how much text fits in its context window
+ */
+export interface ModelCapabilities {
+  /** Tokens of prompt and response together */
+  contextWindow: number;
+  /** Ollama prompt template; empty for cloud models */
+  template: string;
+  /** Fill-in-the-middle completion with the code after the cursor */
+  supportsFim: boolean;
+  supportsVision: boolean;
+  supportsTools: boolean;
+  /** Ollama's /api/show, the table of cloud models, or defaults for an unknown model */
+  source: 'ollama' | 'table' | 'default';
+}
+
+/**
+ * The parts of Ollama's /api/show response the capabilities come from
+ */
+export interface OllamaModelInfo {
+  /** Context length the model was trained with */
+  contextLength?: number;
+  /** num_ctx parameter of the Modelfile */
+  numCtx?: number;
+  template: string;
+  /** Capabilities reported by Ollama, e.g. "completion", "insert", "vision", "tools" */
+  capabilities: string[];
+  families: string[];
+}
+
+interface CloudModel {
+  /** Model names starting with the prefix; the longest matching prefix wins */
+  prefix: string;
+  contextWindow: number;
+  supportsVision: boolean;
+}
+
+// The cloud APIs don't report context windows, so they are listed here
+const CLOUD_MODELS: Record<string, CloudModel[]> = {
+  openai: [
+    { prefix: 'gpt-4.1', contextWindow: 1047576, supportsVision: true },
+    { prefix: 'gpt-4o', contextWindow: 128000, supportsVision: true },
+    { prefix: 'gpt-4-turbo', contextWindow: 128000, supportsVision: true },
+    { prefix: 'gpt-4', contextWindow: 8192, supportsVision: false },
+    { prefix: 'gpt-3.5-turbo', contextWindow: 16385, supportsVision: false },
+    { prefix: 'o1', contextWindow: 200000, supportsVision: true },
+    { prefix: 'o3', contextWindow: 200000, supportsVision: true },
+    { prefix: 'o4-mini', contextWindow: 200000, supportsVision: true }
+  ],
+  anthropic: [
+    { prefix: 'claude-3', contextWindow: 200000, supportsVision: true },
+    { prefix: 'claude-sonnet-4', contextWindow: 200000, supportsVision: true },
+    { prefix: 'claude-opus-4', contextWindow: 200000, supportsVision: true },
+    { prefix: 'claude-haiku-4', contextWindow: 200000, supportsVision: true }
+  ]
+};
+
+/**
+ * Characters of prompt that fit in a context window, leaving room for the response
+ */
+export function getPromptBudget(contextWindow: number, maxTokens: number): number {
+  // A response limit close to the window would leave no room, so keep at least a quarter for the prompt
+  const promptTokens = Math.max(contextWindow - maxTokens, Math.floor(contextWindow / 4));
+  return promptTokens * CHARS_PER_TOKEN;
+}
+
+/**
+ * Looks up model capabilities: from /api/show for Ollama models and from a
+ * table for cloud models. Results are cached until the models change.
+ */
+export class ModelCapabilityRegistry {
+  private cache: Map<string, ModelCapabilities> = new Map();
+
+  /**
+   * @param loadOllamaModel Gets the /api/show information of an installed Ollama model
+   */
+  constructor(private loadOllamaModel: (model: string) => Promise<OllamaModelInfo>) {}
+
+  async get(providerId: string, model: string): Promise<ModelCapabilities> {
+    const key = `${providerId}:${model}`;
+    const cached = this.cache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    if (providerId === 'ollama' && model) {
+      try {
+        const capabilities = this.fromOllama(await this.loadOllamaModel(model));
+        this.cache.set(key, capabilities);
+        return capabilities;
+      } catch (error) {
+        // Not cached, so the lookup is retried once Ollama responds
+        log.debug(`Failed to get the capabilities of Ollama model ${model}: ${(error as Error).message}`);
+        return this.getDefaults();
+      }
+    }
+
+    const capabilities = this.fromTable(providerId, model);
+    this.cache.set(key, capabilities);
+    return capabilities;
+  }
+
+  /**
+   * Forget the cached capabilities, e.g. after a model was installed or removed
+   */
+  clear(): void {
+    this.cache.clear();
+  }
+
+  private fromOllama(info: OllamaModelInfo): ModelCapabilities {
+    const contextWindow = info.numCtx
+      ?? Math.min(info.contextLength ?? OLLAMA_DEFAULT_CONTEXT_WINDOW, OLLAMA_DEFAULT_CONTEXT_WINDOW);
+
+    // Older Ollama versions don't report capabilities, so fall back to what the template uses
+    const reported = info.capabilities;
+    return {
+      contextWindow,
+      template: info.template,
+      supportsFim: reported.length > 0 ? reported.includes('insert') : info.template.includes('.Suffix'),
+      supportsVision: reported.length > 0
+        ? reported.includes('vision')
+        : info.families.some(family => family === 'clip' || family === 'mllama'),
+      supportsTools: reported.length > 0 ? reported.includes('tools') : info.template.includes('.Tools'),
+      source: 'ollama'
+    };
+  }
+
+  private fromTable(providerId: string, model: string): ModelCapabilities {
+    const match = (CLOUD_MODELS[providerId] ?? [])
+      .filter(entry => model.startsWith(entry.prefix))
+      .sort((a, b) => b.prefix.length - a.prefix.length)[0];
+    if (!match) {
+      return this.getDefaults();
+    }
+
+    return {
+      contextWindow: match.contextWindow,
+      template: '',
+      supportsFim: false,
+      supportsVision: match.supportsVision,
+      supportsTools: true,
+      source: 'table'
+    };
+  }
+
+  private getDefaults(): ModelCapabilities {
+    return {
+      contextWindow: DEFAULT_CONTEXT_WINDOW,
+      template: '',
+      supportsFim: false,
+      supportsVision: false,
+      supportsTools: false,
+      source: 'default'
+    };
+  }
+}
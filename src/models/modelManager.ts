@@ -1,8 +1,23 @@
 import * as vscode from 'vscode';
 import axios from 'axios';
-import { ModelProvider, ModelRequestOptions, ModelStatus } from './interfaces';
-import { OllamaProvider } from './providers/ollamaProvider';
-import { ConfigurationManager } from '../config/configuration';
+import {
+  ChatMessage,
+  CompletionRequestBuilder,
+  ModelProvider,
+  ModelRequestOptions,
+  ModelRole,
+  ModelRoleAssignment,
+  ModelStatus,
+  ModelTarget
+} from './interfaces';
+import { OllamaProvider, OllamaRunningModel } from './providers/ollamaProvider';
+import { OpenAIProvider } from './providers/openaiProvider';
+import { AnthropicProvider } from './providers/anthropicProvider';
+import { OllamaHttpClient } from './providers/ollamaHttpClient';
+import { readNdjsonStream } from './providers/streamDecoder';
+import { ProviderHealthTracker } from './providerHealth';
+import { ModelCapabilities, ModelCapabilityRegistry, getPromptBudget } from './modelCapabilities';
+import { ConfigurationManager, FallbackProviderSettings, LogCAIConfiguration, ModelRoleSettings } from '../config/configuration';
 import { handleError } from '../utils/errorHandler';
 import { log } from '../utils/logging';
 
@@ -13,9 +28,52 @@ export interface OllamaModel {
   digest?: string;
 }
 
+/**
+ * Details of an installed Ollama model from /api/show
+ */
+export interface OllamaModelDetails {
+  family?: string;
+  parameterSize?: string;
+  quantizationLevel?: string;
+  format?: string;
+  contextLength?: number;
+  /** num_ctx parameter of the Modelfile */
+  numCtx?: number;
+  template: string;
+  /** Capabilities reported by Ollama, e.g. "completion", "insert", "vision", "tools" */
+  capabilities: string[];
+  families: string[];
+  modelfile: string;
+}
+
+// How often the models loaded in Ollama's memory are checked
+const RUNNING_MODELS_POLL_MS = 15000;
+
+/**
+ * A provider that can handle a request: the provider of the role or an entry of the fallback chain
+ */
+interface ProviderCandidate {
+  /** Health tracking key; entries on the same server share it */
+  key: string;
+  provider: ModelProvider;
+  /** Provider name shown to the user */
+  label: string;
+  /** Empty when the provider's default model is used */
+  model: string;
+}
+
 export class ModelManager {
   private providers: Map<string, ModelProvider> = new Map();
-  private currentProvider: ModelProvider | undefined;
+  private fallbackCandidates: ProviderCandidate[] = [];
+  // Failing providers are skipped until a background probe finds them reachable again
+  private health = new ProviderHealthTracker(key => this.probeProvider(key));
+  // Context windows and features of the models, looked up once per model
+  private capabilities = new ModelCapabilityRegistry(model => this.getOllamaModelDetails(model));
+  // Model, keep-alive and context window last loaded for each role, so a model is only warmed up when they change
+  private warmedUpModels: Map<ModelRole, string> = new Map();
+  private runningModels: OllamaRunningModel[] = [];
+  private runningModelsTimer: NodeJS.Timeout | undefined;
+  private ollamaHttp: OllamaHttpClient;
   private _status: ModelStatus = {
     isAvailable: false,
     modelName: '',
@@ -26,7 +84,13 @@ export class ModelManager {
   private readonly _onStatusChanged = new vscode.EventEmitter<ModelStatus>();
   readonly onStatusChanged = this._onStatusChanged.event;
   
+  // Event emitter for changes of the models loaded in Ollama
+  private readonly _onRunningModelsChanged = new vscode.EventEmitter<OllamaRunningModel[]>();
+  readonly onRunningModelsChanged = this._onRunningModelsChanged.event;
+  
   constructor(private configManager: ConfigurationManager) {
+    this.ollamaHttp = new OllamaHttpClient(configManager);
+    this.health.onDidChange(() => this.updateChatStatus());
     this.initialize();
   }
   
@@ -36,8 +100,15 @@ export class ModelManager {
       const ollamaProvider = new OllamaProvider(this.configManager);
       this.providers.set(ollamaProvider.id, ollamaProvider);
       
+      // Create the OpenAI (and OpenAI-compatible) provider
+      const openaiProvider = new OpenAIProvider(this.configManager);
+      this.providers.set(openaiProvider.id, openaiProvider);
+      
+      // Create the Anthropic provider
+      const anthropicProvider = new AnthropicProvider(this.configManager);
+      this.providers.set(anthropicProvider.id, anthropicProvider);
+      
       // Add more providers here as they're implemented
-      // e.g., this.providers.set('openai', new OpenAIProvider(...));
       
       // Set the current provider based on configuration
       await this.setProviderFromConfig();
@@ -82,96 +153,531 @@ export class ModelManager {
   
   private async setProviderFromConfig(): Promise<void> {
     const providerId = this.configManager.getModelProvider();
-    const provider = this.providers.get(providerId);
     
-    if (!provider) {
+    this.health.reset();
+    this.capabilities.clear();
+    this.createFallbackCandidates();
+    
+    if (!this.providers.has(providerId)) {
       const errorMsg = `Provider '${providerId}' not found or not implemented yet`;
       log.error(errorMsg);
       vscode.window.showErrorMessage(`LogCAI: ${errorMsg}`);
-      this.currentProvider = undefined;
       this.updateStatus(false, '', '');
       return;
     }
     
-    this.currentProvider = provider;
+    // Check every provider a role or the fallback chain may use
+    const roles: ModelRole[] = ['chat', 'completion', 'embedding', 'summarization'];
+    const toCheck = new Map<string, ModelProvider>();
+    for (const id of [providerId, ...roles.map(role => this.getRoleProviderId(role))]) {
+      const provider = this.providers.get(id);
+      if (provider) {
+        toCheck.set(id, provider);
+      }
+    }
+    for (const candidate of this.fallbackCandidates) {
+      toCheck.set(candidate.key, candidate.provider);
+    }
+    
+    await Promise.all(Array.from(toCheck.entries()).map(async ([key, provider]) => {
+      // Only the main provider may prompt, e.g. to start Ollama
+      const check = key === providerId ? provider.isAvailable() : provider.isReachable();
+      if (!await check.catch(() => false)) {
+        this.health.markUnavailable(key, 'availability check failed');
+      }
+    }));
+    
+    this.updateChatStatus();
+    this.updateRunningModelsPolling();
+    this.warmUpModels().catch(error => log.warn(`Failed to warm up models: ${error}`));
+  }
+  
+  /**
+   * Load the Ollama models for chat and inline completion, so the first request doesn't wait for them
+   */
+  private async warmUpModels(): Promise<void> {
+    const config = this.configManager.getConfiguration();
+    const ollamaProvider = this.providers.get('ollama') as OllamaProvider | undefined;
+    if (!config.warmUpModels || !ollamaProvider) {
+      return;
+    }
+    
+    for (const role of ['chat', 'completion'] as ModelRole[]) {
+      const assignment = this.getRoleAssignment(role);
+      if (assignment.providerId !== 'ollama' || !assignment.model || !assignment.isAvailable) {
+        continue;
+      }
+      
+      const { contextWindow } = await this.getModelCapabilities(role);
+      const key = `${assignment.model}\0${assignment.options.keepAlive ?? ''}\0${contextWindow}`;
+      if (this.warmedUpModels.get(role) === key) {
+        continue;
+      }
+      this.warmedUpModels.set(role, key);
+      
+      try {
+        log.info(`Warming up Ollama model ${assignment.model} for ${role}`);
+        // Loaded with the context window of the requests, so the first request doesn't reload it
+        await ollamaProvider.loadModel(assignment.model, assignment.options.keepAlive, contextWindow);
+      } catch (error) {
+        this.warmedUpModels.delete(role);
+        log.warn(`Failed to warm up Ollama model ${assignment.model}: ${(error as Error).message}`);
+      }
+    }
+    await this.refreshRunningModels();
+  }
+  
+  /**
+   * Poll the loaded models while a role uses Ollama
+   */
+  private updateRunningModelsPolling(): void {
+    const roles: ModelRole[] = ['chat', 'completion', 'summarization'];
+    const usesOllama = roles.some(role => this.getRoleProviderId(role) === 'ollama');
+    
+    if (usesOllama && !this.runningModelsTimer) {
+      this.runningModelsTimer = setInterval(() => this.refreshRunningModels(), RUNNING_MODELS_POLL_MS);
+      this.refreshRunningModels();
+    } else if (!usesOllama && this.runningModelsTimer) {
+      clearInterval(this.runningModelsTimer);
+      this.runningModelsTimer = undefined;
+      this.setRunningModels([]);
+    }
+  }
+  
+  private async refreshRunningModels(): Promise<void> {
+    const ollamaProvider = this.providers.get('ollama') as OllamaProvider | undefined;
+    if (!ollamaProvider || !this.health.isCallable('ollama')) {
+      this.setRunningModels([]);
+      return;
+    }
+    
+    try {
+      this.setRunningModels(await ollamaProvider.getRunningModels());
+    } catch (error) {
+      log.debug(`Failed to get the loaded Ollama models: ${(error as Error).message}`);
+      this.setRunningModels([]);
+    }
+  }
+  
+  private setRunningModels(models: OllamaRunningModel[]): void {
+    if (JSON.stringify(models) !== JSON.stringify(this.runningModels)) {
+      this.runningModels = models;
+      this._onRunningModelsChanged.fire(models);
+    }
+  }
+  
+  /**
+   * Models loaded in Ollama's memory, as of the last poll
+   */
+  getRunningOllamaModels(): OllamaRunningModel[] {
+    return this.runningModels;
+  }
+  
+  /**
+   * Unload an Ollama model to free its memory
+   */
+  async unloadOllamaModel(modelName: string): Promise<void> {
+    const ollamaProvider = this.providers.get('ollama') as OllamaProvider | undefined;
+    if (!ollamaProvider) {
+      throw new Error('Ollama provider not found');
+    }
+    
+    await ollamaProvider.unloadModel(modelName);
+    // Warm the model up again when it is selected next time
+    for (const [role, key] of this.warmedUpModels) {
+      if (key.startsWith(`${modelName}\0`)) {
+        this.warmedUpModels.delete(role);
+      }
+    }
+    log.info(`Unloaded Ollama model ${modelName}`);
+    await this.refreshRunningModels();
+  }
+  
+  /**
+   * Create the providers of the fallback chain. Entries with their own endpoint get
+   * their own provider; the others share the provider of the same type.
+   */
+  private createFallbackCandidates(): void {
+    this.disposeFallbackProviders();
+    const config = this.configManager.getConfiguration();
     
-    // Check availability
-    const isAvailable = await provider.isAvailable().catch(() => false);
+    this.fallbackCandidates = config.fallbackChain.flatMap(entry => {
+      const provider = this.createFallbackProvider(entry);
+      if (!provider) {
+        log.warn(`Ignoring fallback provider '${entry.provider}'`);
+        return [];
+      }
+      return [{
+        key: entry.endpoint ? `${entry.provider}@${entry.endpoint}` : entry.provider,
+        provider,
+        label: entry.endpoint ? `${provider.name} (${this.getHost(entry.endpoint)})` : provider.name,
+        model: entry.model || this.getConfiguredModel(entry.provider, config)
+      }];
+    });
+  }
+  
+  private createFallbackProvider(entry: FallbackProviderSettings): ModelProvider | undefined {
+    if (!entry.endpoint) {
+      return this.providers.get(entry.provider);
+    }
     
-    // Update status
+    switch (entry.provider) {
+      case 'ollama':
+        return new OllamaProvider(this.configManager, entry.endpoint);
+      case 'openai':
+        return new OpenAIProvider(this.configManager, entry.endpoint);
+      default:
+        log.warn(`A custom endpoint is not supported for ${entry.provider}, using its default`);
+        return this.providers.get(entry.provider);
+    }
+  }
+  
+  private disposeFallbackProviders(): void {
+    const shared = new Set(this.providers.values());
+    for (const { provider } of this.fallbackCandidates) {
+      if (!shared.has(provider) && 'dispose' in provider && typeof (provider as any).dispose === 'function') {
+        (provider as any).dispose();
+      }
+    }
+    this.fallbackCandidates = [];
+  }
+  
+  private getHost(endpoint: string): string {
+    try {
+      return new URL(endpoint).host;
+    } catch (error) {
+      return endpoint;
+    }
+  }
+  
+  /**
+   * Check whether a skipped provider responds again
+   */
+  private async probeProvider(key: string): Promise<boolean> {
+    const provider = this.providers.get(key) ?? this.fallbackCandidates.find(candidate => candidate.key === key)?.provider;
+    return provider ? provider.isReachable() : false;
+  }
+  
+  /**
+   * Show the chat provider in the status, or the fallback that replaces it
+   */
+  private updateChatStatus(): void {
+    const assignment = this.getRoleAssignment('chat');
+    const candidates = this.getCandidates(assignment);
+    const active = candidates.find(candidate => this.health.isCallable(candidate.key));
+    
+    if (!active) {
+      this.updateStatus(false, assignment.model, assignment.providerName);
+    } else if (active === candidates[0] && active.key === assignment.providerId) {
+      this.updateStatus(true, active.model, active.label);
+    } else {
+      this.updateStatus(true, active.model, active.label, assignment.providerName);
+    }
+  }
+  
+  /**
+   * Get the provider, model and options that handle a model role.
+   * Roles without their own settings use the main provider and model;
+   * the embedding role falls back to the embedding settings.
+   */
+  getRoleAssignment(role: ModelRole): ModelRoleAssignment {
     const config = this.configManager.getConfiguration();
-    let modelName = '';
+    const settings = this.configManager.getModelRole(role);
+    const providerId = this.getRoleProviderId(role);
+    const provider = this.providers.get(providerId);
+    
+    const defaultModel = role === 'embedding' ? config.embeddingModel : this.getConfiguredModel(providerId, config);
+    const model = settings.model || defaultModel;
+    // The embedding role only sets a provider and a model
+    const requestSettings: ModelRoleSettings = role === 'embedding' ? {} : this.configManager.getModelRole(role);
     
+    return {
+      role,
+      providerId,
+      providerName: provider?.name ?? providerId,
+      model,
+      options: {
+        temperature: requestSettings.temperature,
+        maxTokens: requestSettings.maxTokens,
+        keepAlive: requestSettings.keepAlive,
+        contextWindow: requestSettings.contextWindow
+      },
+      // The offline hash embeddings need no provider
+      isAvailable: provider ? this.health.isCallable(providerId) : providerId === 'hash'
+    };
+  }
+  
+  /**
+   * Get the context window and features of the model that handles a role
+   */
+  async getModelCapabilities(role: ModelRole = 'chat'): Promise<ModelCapabilities> {
+    const assignment = this.getRoleAssignment(role);
+    const capabilities = await this.capabilities.get(assignment.providerId, assignment.model);
+    // A context window set for the role replaces the model's
+    return assignment.options.contextWindow
+      ? { ...capabilities, contextWindow: assignment.options.contextWindow }
+      : capabilities;
+  }
+  
+  /**
+   * Number of prompt characters that fit in the context window of a role's model,
+   * leaving room for the response
+   */
+  async getPromptBudget(role: ModelRole = 'chat'): Promise<number> {
+    const { contextWindow } = await this.getModelCapabilities(role);
+    const maxTokens = this.getRoleAssignment(role).options.maxTokens ?? this.configManager.getConfiguration().maxTokens;
+    return getPromptBudget(contextWindow, maxTokens);
+  }
+  
+  private getRoleProviderId(role: ModelRole): string {
+    const config = this.configManager.getConfiguration();
+    if (role === 'embedding') {
+      // Embeddings can also be computed offline ("hash") or turned off ("none"), without a model provider
+      return this.configManager.getModelRole(role).provider ?? config.embeddingProvider;
+    }
+    const settings = this.configManager.getModelRole(role);
+    if (settings.provider && this.providers.has(settings.provider)) {
+      return settings.provider;
+    }
+    return config.modelProvider;
+  }
+  
+  /**
+   * Get the model configured for a provider in its own settings
+   */
+  private getConfiguredModel(providerId: string, config: LogCAIConfiguration): string {
     switch (providerId) {
       case 'ollama':
-        modelName = config.ollamaModel;
-        break;
+        return config.ollamaModel;
       case 'openai':
-        modelName = config.openaiModel;
-        break;
+        return config.openaiModel;
       case 'anthropic':
-        modelName = config.anthropicModel;
-        break;
+        return config.anthropicModel;
+      default:
+        return '';
+    }
+  }
+  
+  /**
+   * Get the providers that can handle a role, in the order they are tried
+   */
+  private getCandidates(assignment: ModelRoleAssignment): ProviderCandidate[] {
+    const provider = this.providers.get(assignment.providerId);
+    if (!provider) {
+      return [...this.fallbackCandidates];
+    }
+    
+    const primary: ProviderCandidate = {
+      key: assignment.providerId,
+      provider,
+      label: provider.name,
+      model: assignment.model
+    };
+    return [
+      primary,
+      ...this.fallbackCandidates.filter(candidate => candidate.key !== primary.key || candidate.model !== primary.model)
+    ];
+  }
+  
+  /**
+   * Send a request to the provider of its role, falling back to the next provider in the
+   * chain when it fails. Options passed with the request take precedence over the role's options.
+   * @param send Sends the request to a provider; the target names the provider and model it goes to
+   * @param canFallBack Whether the request can still be retried, e.g. no text was streamed yet
+   */
+  private async sendWithFallback<T>(
+    defaultRole: ModelRole,
+    options: ModelRequestOptions | undefined,
+    token: vscode.CancellationToken | undefined,
+    send: (provider: ModelProvider, options: ModelRequestOptions, target: ModelTarget) => Promise<T>,
+    canFallBack: () => boolean = () => true
+  ): Promise<T> {
+    const assignment = this.getRoleAssignment(options?.role ?? defaultRole);
+    const [primary, ...fallbacks] = this.getCandidates(assignment);
+    const candidates = [primary, ...fallbacks].filter(candidate => candidate && this.health.isCallable(candidate.key));
+    
+    if (candidates.length === 0) {
+      throw new Error(`Model provider '${assignment.providerName}' is not available`);
     }
     
-    this.updateStatus(isAvailable, modelName, provider.name);
+    const roleOptions = Object.fromEntries(
+      Object.entries(assignment.options).filter(([, value]) => value !== undefined)
+    ) as ModelRequestOptions;
+    
+    // Ollama reloads a model when num_ctx changes, so every request to it uses the same context window
+    const contextWindow = options?.contextWindow
+      ?? (assignment.providerId === 'ollama' ? (await this.getModelCapabilities(assignment.role)).contextWindow : undefined);
+    
+    for (let i = 0; ; i++) {
+      const candidate = candidates[i];
+      const isLast = i === candidates.length - 1;
+      const requestOptions: ModelRequestOptions = {
+        ...roleOptions,
+        ...options,
+        // A model requested by the caller is a model of the role's own provider
+        model: (candidate === primary ? options?.model : undefined) || candidate.model || undefined,
+        contextWindow: candidate === primary ? contextWindow : options?.contextWindow,
+        // Only the last provider in the chain reports its failure to the user
+        silent: options?.silent || !isLast
+      };
+      try {
+        const result = await send(
+          candidate.provider,
+          requestOptions,
+          { providerId: candidate.provider.id, model: requestOptions.model ?? '' }
+        );
+        this.health.recordSuccess(candidate.key);
+        return result;
+      } catch (error) {
+        if (token?.isCancellationRequested) {
+          throw error;
+        }
+        this.health.recordFailure(candidate.key, error as Error);
+        if (isLast || !canFallBack()) {
+          throw error;
+        }
+        log.warn(`${candidate.label} failed (${(error as Error).message}), falling back to ${candidates[i + 1].label}`);
+      }
+    }
   }
   
-  private updateStatus(isAvailable: boolean, modelName: string, providerName: string): void {
+  private updateStatus(isAvailable: boolean, modelName: string, providerName: string, fallbackFrom?: string): void {
     this._status = {
       isAvailable,
       modelName,
-      providerName
+      providerName,
+      fallbackFrom
     };
     
     // Emit status changed event
     this._onStatusChanged.fire(this._status);
-    log.info(`Model status updated: ${providerName} (${modelName}) - Available: ${isAvailable}`);
+    log.info(
+      `Model status updated: ${providerName} (${modelName}) - Available: ${isAvailable}` +
+      (fallbackFrom ? ` - Fallback for ${fallbackFrom}` : '')
+    );
   }
   
   get status(): ModelStatus {
     return this._status;
   }
   
-  async getCompletion(prompt: string, options?: ModelRequestOptions): Promise<string> {
-    if (!this.currentProvider) {
-      throw new Error('No model provider is configured or available');
-    }
-    
-    if (!this._status.isAvailable) {
-      throw new Error(`Model provider '${this.currentProvider.name}' is not available`);
-    }
-    
+  /**
+   * Get a completion, from the next provider in the fallback chain if the role's provider fails
+   * @param prompt The prompt, or a builder that writes it for each provider that is tried
+   */
+  async getCompletion(
+    prompt: string | CompletionRequestBuilder,
+    options?: ModelRequestOptions,
+    token?: vscode.CancellationToken
+  ): Promise<string> {
     try {
-      return await this.currentProvider.getCompletion(prompt, options);
+      return await this.sendWithFallback('completion', options, token, async (provider, requestOptions, target) => {
+        const request = await this.buildCompletionRequest(prompt, requestOptions, target);
+        return provider.getCompletion(request.prompt, request.options, token);
+      });
     } catch (error) {
-      handleError(error as Error, 'Failed to get completion');
+      this.reportRequestError(error as Error, 'Failed to get completion', options);
       throw error;
     }
   }
   
+  /**
+   * Stream a completion; only falls back to the next provider before any text was streamed
+   * @param prompt The prompt, or a builder that writes it for each provider that is tried
+   */
   async streamCompletion(
-    prompt: string,
+    prompt: string | CompletionRequestBuilder,
     callback: (text: string, final: boolean) => void,
     token?: vscode.CancellationToken,
     options?: ModelRequestOptions
   ): Promise<void> {
-    if (!this.currentProvider) {
-      throw new Error('No model provider is configured or available');
-    }
+    let streamed = false;
+    const trackingCallback = (text: string, final: boolean) => {
+      streamed = true;
+      callback(text, final);
+    };
     
-    if (!this._status.isAvailable) {
-      throw new Error(`Model provider '${this.currentProvider.name}' is not available`);
+    try {
+      await this.sendWithFallback(
+        'completion',
+        options,
+        token,
+        async (provider, requestOptions, target) => {
+          const request = await this.buildCompletionRequest(prompt, requestOptions, target);
+          return provider.streamCompletion(request.prompt, trackingCallback, token, request.options);
+        },
+        () => !streamed
+      );
+    } catch (error) {
+      this.reportRequestError(error as Error, 'Failed to stream completion', options);
+      throw error;
     }
+  }
+  
+  async chat(messages: ChatMessage[], options?: ModelRequestOptions, token?: vscode.CancellationToken): Promise<string> {
+    try {
+      return await this.sendWithFallback('chat', options, token, (provider, requestOptions) =>
+        provider.chat(messages, requestOptions, token)
+      );
+    } catch (error) {
+      this.reportRequestError(error as Error, 'Failed to get chat response', options);
+      throw error;
+    }
+  }
+  
+  async streamChat(
+    messages: ChatMessage[],
+    callback: (text: string, final: boolean) => void,
+    token?: vscode.CancellationToken,
+    options?: ModelRequestOptions
+  ): Promise<void> {
+    // Once text was streamed another provider can't take over without repeating it
+    let streamed = false;
+    const trackingCallback = (text: string, final: boolean) => {
+      streamed = true;
+      callback(text, final);
+    };
     
     try {
-      await this.currentProvider.streamCompletion(prompt, callback, token, options);
+      await this.sendWithFallback(
+        'chat',
+        options,
+        token,
+        (provider, requestOptions) => provider.streamChat(messages, trackingCallback, token, requestOptions),
+        () => !streamed
+      );
     } catch (error) {
-      handleError(error as Error, 'Failed to stream completion');
+      this.reportRequestError(error as Error, 'Failed to stream chat response', options);
       throw error;
     }
   }
   
+  /**
+   * Get the prompt and options of a completion request for the provider it is sent to
+   */
+  private async buildCompletionRequest(
+    prompt: string | CompletionRequestBuilder,
+    options: ModelRequestOptions,
+    target: ModelTarget
+  ): Promise<{ prompt: string; options: ModelRequestOptions }> {
+    if (typeof prompt === 'string') {
+      return { prompt, options };
+    }
+    const request = await prompt(target);
+    return { prompt: request.prompt, options: { ...options, ...request.options, model: options.model } };
+  }
+  
+  /**
+   * Report a failed model request; silent requests are only logged
+   */
+  private reportRequestError(error: Error, context: string, options?: ModelRequestOptions): void {
+    if (options?.silent) {
+      log.warn(`${context}: ${error.message}`);
+    } else {
+      handleError(error, context);
+    }
+  }
+  
   /**
    * Get available Ollama models
    */
@@ -183,7 +689,7 @@ export class ModelManager {
       }
       
       const baseUrl = ollamaProvider.getBaseUrl();
-      const response = await axios.get(`${baseUrl}/api/tags`);
+      const response = await this.ollamaHttp.get(`${baseUrl}/api/tags`);
       
       if (!response.data || !response.data.models) {
         log.warn('Unexpected response format from Ollama API: missing models property');
@@ -217,6 +723,59 @@ export class ModelManager {
     }
   }
   
+  /**
+   * Get the details and Modelfile of an installed Ollama model
+   */
+  async getOllamaModelDetails(modelName: string): Promise<OllamaModelDetails> {
+    const response = await this.ollamaHttp.post(`${this.getOllamaBaseUrl()}/api/show`, { name: modelName });
+    const details = response.data?.details ?? {};
+    const modelInfo: Record<string, unknown> = response.data?.model_info ?? {};
+    
+    // The context length key is prefixed with the architecture, e.g. llama.context_length
+    const contextLengthKey = Object.keys(modelInfo).find(key => key.endsWith('.context_length'));
+    
+    // Parameters are listed one per line, e.g. "num_ctx    8192"
+    const numCtx = /^num_ctx\s+(\d+)/m.exec(response.data?.parameters ?? '')?.[1];
+    
+    return {
+      family: details.family,
+      parameterSize: details.parameter_size,
+      quantizationLevel: details.quantization_level,
+      format: details.format,
+      contextLength: contextLengthKey ? Number(modelInfo[contextLengthKey]) : undefined,
+      numCtx: numCtx ? Number(numCtx) : undefined,
+      template: response.data?.template ?? '',
+      capabilities: response.data?.capabilities ?? [],
+      families: details.families ?? [],
+      modelfile: response.data?.modelfile ?? ''
+    };
+  }
+  
+  /**
+   * Delete an installed Ollama model
+   */
+  async deleteOllamaModel(modelName: string): Promise<void> {
+    await this.ollamaHttp.delete(`${this.getOllamaBaseUrl()}/api/delete`, { data: { name: modelName } });
+    this.capabilities.clear();
+    log.info(`Deleted Ollama model ${modelName}`);
+  }
+  
+  /**
+   * Copy an installed Ollama model to a new name
+   */
+  async copyOllamaModel(source: string, destination: string): Promise<void> {
+    await this.ollamaHttp.post(`${this.getOllamaBaseUrl()}/api/copy`, { source, destination });
+    log.info(`Copied Ollama model ${source} to ${destination}`);
+  }
+  
+  private getOllamaBaseUrl(): string {
+    const ollamaProvider = this.providers.get('ollama') as OllamaProvider;
+    if (!ollamaProvider) {
+      throw new Error('Ollama provider not found');
+    }
+    return ollamaProvider.getBaseUrl();
+  }
+  
   /**
    * Install an Ollama model
    */
@@ -242,7 +801,7 @@ export class ModelManager {
       }
       
       // Start pull request
-      const response = await axios.post(
+      const response = await this.ollamaHttp.post(
         `${baseUrl}/api/pull`,
         { name: modelName },
         {
@@ -251,60 +810,45 @@ export class ModelManager {
         }
       );
       
-      return new Promise<void>((resolve, reject) => {
-        let lastProgress = '';
-        let lastStatus = '';
-        
-        response.data.on('data', (chunk: Buffer) => {
-          try {
-            const data = JSON.parse(chunk.toString());
-            
-            if (data.status) {
-              lastStatus = data.status;
-            }
-            
-            if (data.completed && data.total) {
-              const percent = Math.round((data.completed / data.total) * 100);
-              const progressStr = `${percent}% - ${this.formatBytes(data.completed)} of ${this.formatBytes(data.total)}`;
-              
-              if (progressStr !== lastProgress) {
-                lastProgress = progressStr;
-                progressCallback(`${lastStatus} - ${progressStr}`);
-              }
-            } else if (lastStatus) {
-              progressCallback(lastStatus);
-            }
-            
-            if (data.error) {
-              reject(new Error(data.error));
-            }
-          } catch (e) {
-            // Ignore parsing errors, just continue with the stream
+      let lastProgress = '';
+      let lastStatus = '';
+
+      // Several progress lines can share a chunk, so the stream is decoded line by line
+      await readNdjsonStream<{ status?: string; completed?: number; total?: number; error?: string }>(
+        response.data,
+        data => {
+          if (data.error) {
+            throw new Error(data.error);
           }
-        });
-        
-        response.data.on('end', () => {
-          progressCallback('Download complete, finalizing installation...');
-          
-          // Verify model exists after installation
-          this.verifyModelInstalled(modelName).then(installed => {
-            if (installed) {
-              resolve();
-            } else {
-              reject(new Error(`Failed to verify model ${modelName} was installed`));
+
+          if (data.status) {
+            lastStatus = data.status;
+          }
+
+          if (data.completed && data.total) {
+            const percent = Math.round((data.completed / data.total) * 100);
+            const progressStr = `${percent}% - ${this.formatBytes(data.completed)} of ${this.formatBytes(data.total)}`;
+
+            if (progressStr !== lastProgress) {
+              lastProgress = progressStr;
+              progressCallback(`${lastStatus} - ${progressStr}`);
             }
-          }).catch(() => {
-            // Even if verification fails, consider it a success since the download completed
-            resolve();
-          });
-        });
-        
-        response.data.on('error', (err: Error) => {
-          reject(err);
-        });
-      });
+          } else if (lastStatus) {
+            progressCallback(lastStatus);
+          }
+        }
+      );
+
+      progressCallback('Download complete, finalizing installation...');
+
+      // Verify model exists after installation
+      if (!(await this.verifyModelInstalled(modelName))) {
+        throw new Error(`Failed to verify model ${modelName} was installed`);
+      }
+      // Pulling can update a model that was installed before
+      this.capabilities.clear();
     } catch (error) {
-      if (axios.isCancel(error)) {
+      if (axios.isCancel(error) || token?.isCancellationRequested) {
         throw new Error('Model installation cancelled');
       }
       
@@ -342,7 +886,7 @@ export class ModelManager {
   /**
    * Format bytes to human-readable string
    */
-  private formatBytes(bytes: number): string {
+  formatBytes(bytes: number): string {
     if (bytes === 0) {return '0 Bytes';}
     
     const k = 1024;
@@ -356,6 +900,12 @@ export class ModelManager {
    * Dispose of all providers
    */
   dispose(): void {
+    if (this.runningModelsTimer) {
+      clearInterval(this.runningModelsTimer);
+    }
+    this.health.dispose();
+    this.disposeFallbackProviders();
+    
     // Dispose all providers that have a dispose method
     for (const provider of this.providers.values()) {
       if ('dispose' in provider && typeof (provider as any).dispose === 'function') {
@@ -0,0 +1,138 @@
+import * as vscode from 'vscode';
+import { log } from '../utils/logging';
+
+// Consecutive failures after which a provider is skipped
+const FAILURE_THRESHOLD = 3;
+// How often skipped providers are checked for recovery
+const PROBE_INTERVAL_MS = 30000;
+
+/**
+ * Health of one provider. An open circuit means the provider is skipped
+ * until a background probe finds it reachable again.
+ */
+export interface ProviderHealth {
+  circuit: 'closed' | 'open';
+  consecutiveFailures: number;
+  lastError?: string;
+  /** When the circuit was opened */
+  openedAt?: number;
+}
+
+/**
+ * Tracks failures per provider, opens the circuit after repeated failures
+ * and probes providers with an open circuit in the background until they recover
+ */
+export class ProviderHealthTracker implements vscode.Disposable {
+  private health: Map<string, ProviderHealth> = new Map();
+  private probeTimer: NodeJS.Timeout | undefined;
+  private probing = false;
+
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._onDidChange.event;
+
+  /**
+   * @param probe Checks whether the provider with the given key responds again
+   */
+  constructor(private probe: (key: string) => Promise<boolean>) {}
+
+  /**
+   * Whether requests should be sent to a provider
+   */
+  isCallable(key: string): boolean {
+    return this.health.get(key)?.circuit !== 'open';
+  }
+
+  getHealth(key: string): ProviderHealth {
+    return this.health.get(key) ?? { circuit: 'closed', consecutiveFailures: 0 };
+  }
+
+  recordSuccess(key: string): void {
+    const wasOpen = !this.isCallable(key);
+    this.health.set(key, { circuit: 'closed', consecutiveFailures: 0 });
+    if (wasOpen) {
+      log.info(`Provider ${key} recovered`);
+      this._onDidChange.fire();
+    }
+  }
+
+  recordFailure(key: string, error: Error): void {
+    const current = this.getHealth(key);
+    const consecutiveFailures = current.consecutiveFailures + 1;
+
+    if (current.circuit === 'closed' && consecutiveFailures >= FAILURE_THRESHOLD) {
+      this.open(key, error.message, consecutiveFailures);
+      return;
+    }
+    this.health.set(key, { ...current, consecutiveFailures, lastError: error.message });
+  }
+
+  /**
+   * Skip a provider right away, e.g. when its availability check fails
+   */
+  markUnavailable(key: string, reason: string): void {
+    if (this.getHealth(key).circuit !== 'open') {
+      this.open(key, reason, this.getHealth(key).consecutiveFailures);
+    }
+  }
+
+  /**
+   * Forget all failures, e.g. after the configuration changed
+   */
+  reset(): void {
+    this.health.clear();
+    this.stopProbes();
+  }
+
+  private open(key: string, reason: string, consecutiveFailures: number): void {
+    log.warn(`Skipping provider ${key} until it recovers: ${reason}`);
+    this.health.set(key, { circuit: 'open', consecutiveFailures, lastError: reason, openedAt: Date.now() });
+    this.startProbes();
+    this._onDidChange.fire();
+  }
+
+  private startProbes(): void {
+    if (!this.probeTimer) {
+      this.probeTimer = setInterval(() => this.probeOpenCircuits(), PROBE_INTERVAL_MS);
+    }
+  }
+
+  private stopProbes(): void {
+    if (this.probeTimer) {
+      clearInterval(this.probeTimer);
+      this.probeTimer = undefined;
+    }
+  }
+
+  private async probeOpenCircuits(): Promise<void> {
+    if (this.probing) {
+      return;
+    }
+    this.probing = true;
+
+    try {
+      const openKeys = Array.from(this.health.entries())
+        .filter(([, health]) => health.circuit === 'open')
+        .map(([key]) => key);
+
+      for (const key of openKeys) {
+        const reachable = await this.probe(key).catch(() => false);
+        if (reachable) {
+          this.recordSuccess(key);
+        } else {
+          log.debug(`Provider ${key} is still unavailable`);
+        }
+      }
+
+      if (!Array.from(this.health.values()).some(health => health.circuit === 'open')) {
+        this.stopProbes();
+      }
+    } finally {
+      this.probing = false;
+    }
+  }
+
+  dispose(): void {
+    this.stopProbes();
+    this._onDidChange.dispose();
+  }
+}
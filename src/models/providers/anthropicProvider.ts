@@ -0,0 +1,340 @@
+import * as vscode from 'vscode';
+import axios, { AxiosError, AxiosResponse } from 'axios';
+import { BaseModelProvider } from './baseProvider';
+import { ChatMessage, ModelRequestOptions } from '../interfaces';
+import { ConfigurationManager } from '../../config/configuration';
+import { log } from '../../utils/logging';
+import { ERROR_MESSAGES } from '../../config/constants';
+import { readServerSentEvents } from './streamDecoder';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1';
+const ANTHROPIC_API_VERSION = '2023-06-01';
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  delta?: { type?: string; text?: string; stop_reason?: string | null };
+  error?: { type?: string; message?: string };
+}
+
+/**
+ * Provider for the Anthropic Messages API
+ */
+export class AnthropicProvider extends BaseModelProvider {
+  readonly id = 'anthropic';
+  readonly name = 'Anthropic';
+
+  // Configuration properties
+  private model!: string;
+  private temperature!: number;
+  private maxTokens!: number;
+
+  constructor(private configManager: ConfigurationManager) {
+    super();
+    this.refreshConfiguration();
+  }
+
+  refreshConfiguration(): void {
+    const config = this.configManager.getConfiguration();
+    this.model = config.anthropicModel;
+    this.temperature = config.temperature;
+    this.maxTokens = config.maxTokens;
+    log.info(`Anthropic configuration refreshed: model=${this.model}`);
+  }
+
+  /**
+   * Check if the API is reachable with the stored API key
+   */
+  async isAvailable(): Promise<boolean> {
+    try {
+      const apiKey = await this.configManager.getAnthropicApiKey();
+      if (!apiKey) {
+        log.warn('Anthropic API key is not set');
+        return false;
+      }
+
+      await axios.get(`${ANTHROPIC_API_URL}/models`, {
+        headers: await this.getHeaders(),
+        timeout: 5000
+      });
+      return true;
+    } catch (error) {
+      log.error(`Anthropic availability check failed: ${(error as Error).message}`);
+      return false;
+    }
+  }
+
+  async getCompletion(prompt: string, options?: ModelRequestOptions, token?: vscode.CancellationToken): Promise<string> {
+    return this.sendMessages([{ role: 'user', content: prompt }], undefined, options, token);
+  }
+
+  async streamCompletion(
+    prompt: string,
+    callback: (text: string, final: boolean) => void,
+    token?: vscode.CancellationToken,
+    options?: ModelRequestOptions
+  ): Promise<void> {
+    return this.streamMessages([{ role: 'user', content: prompt }], undefined, callback, token, options);
+  }
+
+  async chat(messages: ChatMessage[], options?: ModelRequestOptions, token?: vscode.CancellationToken): Promise<string> {
+    const { system, conversation } = this.toAnthropicMessages(messages);
+    return this.sendMessages(conversation, system, options, token);
+  }
+
+  async streamChat(
+    messages: ChatMessage[],
+    callback: (text: string, final: boolean) => void,
+    token?: vscode.CancellationToken,
+    options?: ModelRequestOptions
+  ): Promise<void> {
+    const { system, conversation } = this.toAnthropicMessages(messages);
+    return this.streamMessages(conversation, system, callback, token, options);
+  }
+
+  /**
+   * Split chat messages into the top-level system prompt and the user/assistant turns
+   */
+  private toAnthropicMessages(messages: ChatMessage[]): { system: string | undefined; conversation: AnthropicMessage[] } {
+    const system = messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+    
+    const conversation: AnthropicMessage[] = messages
+      .filter(message => message.role !== 'system')
+      .map(message => ({
+        role: message.role === 'assistant' ? 'assistant' : 'user',
+        content: message.content
+      }));
+    
+    return { system: system || undefined, conversation };
+  }
+
+  /**
+   * Send a non-streaming Messages API request
+   */
+  private async sendMessages(
+    messages: AnthropicMessage[],
+    system: string | undefined,
+    options?: ModelRequestOptions,
+    externalToken?: vscode.CancellationToken
+  ): Promise<string> {
+    return this.withProgress('Generating response', async (progress, token) => {
+      progress.report({ message: 'Waiting for model...' });
+      try {
+        const response = await axios.post(
+          `${ANTHROPIC_API_URL}/messages`,
+          this.buildRequestBody(messages, false, options, system),
+          {
+            headers: await this.getHeaders(),
+            cancelToken: new axios.CancelToken(cancel => {
+              token.onCancellationRequested(() => {
+                cancel('Operation cancelled by user');
+              });
+            })
+          }
+        );
+        progress.report({ message: 'Response received', increment: 100 });
+
+        // Concatenate all text blocks of the response
+        const blocks: { type: string; text?: string }[] = response.data?.content || [];
+        return blocks
+          .filter(block => block.type === 'text')
+          .map(block => block.text || '')
+          .join('');
+      } catch (error) {
+        if (axios.isCancel(error)) {
+          log.info('Anthropic request cancelled by user');
+          return '';
+        }
+        throw this.handleProviderError(error, options?.silent, options?.model);
+      }
+    }, externalToken, options?.silent);
+  }
+
+  /**
+   * Send a streaming Messages API request and parse the server-sent events
+   */
+  private async streamMessages(
+    messages: AnthropicMessage[],
+    system: string | undefined,
+    callback: (text: string, final: boolean) => void,
+    token?: vscode.CancellationToken,
+    options?: ModelRequestOptions
+  ): Promise<void> {
+    return this.withProgress('Streaming response', async (progress, mergedToken) => {
+      progress.report({ message: 'Waiting for model...' });
+      let response: AxiosResponse;
+      try {
+        response = await axios.post(
+          `${ANTHROPIC_API_URL}/messages`,
+          this.buildRequestBody(messages, true, options, system),
+          {
+            headers: await this.getHeaders(),
+            responseType: 'stream',
+            cancelToken: new axios.CancelToken(cancel => {
+              mergedToken.onCancellationRequested(() => {
+                cancel('Operation cancelled by user');
+              });
+            })
+          }
+        );
+      } catch (error) {
+        if (axios.isCancel(error)) {
+          log.info('Anthropic stream request cancelled by user');
+          return;
+        }
+        throw this.handleProviderError(error, options?.silent, options?.model);
+      }
+      progress.report({ message: 'Generating...' });
+
+      let finished = false;
+      const finish = () => {
+        if (!finished) {
+          finished = true;
+          callback('', true);
+        }
+      };
+
+      try {
+        // The event type is repeated inside the data payload, so the "event:" field is not needed
+        await readServerSentEvents(response.data, ({ data }) => {
+          if (mergedToken.isCancellationRequested || finished) {
+            return;
+          }
+          let event: AnthropicStreamEvent;
+          try {
+            event = JSON.parse(data) as AnthropicStreamEvent;
+          } catch (err) {
+            log.error(`Error processing Anthropic stream event: ${(err as Error).message}`);
+            return;
+          }
+          switch (event.type) {
+            case 'message_start':
+              progress.report({ message: 'Generating...' });
+              break;
+            case 'content_block_delta':
+              if (event.delta?.type === 'text_delta' && event.delta.text) {
+                callback(event.delta.text, false);
+              }
+              break;
+            case 'message_delta':
+              if (event.delta?.stop_reason) {
+                log.debug(`Anthropic stream stopped: ${event.delta.stop_reason}`);
+              }
+              break;
+            case 'message_stop':
+              finish();
+              break;
+            case 'error':
+              throw this.createStreamError(event.error);
+          }
+        });
+      } catch (error) {
+        // Cancelling aborts the response stream
+        if (mergedToken.isCancellationRequested) {
+          log.info('Anthropic stream request cancelled by user');
+          return;
+        }
+        throw error;
+      }
+      finish();
+      progress.report({ message: 'Response complete', increment: 100 });
+    }, token, options?.silent);
+  }
+
+  /**
+   * Build the request body for the Messages API
+   */
+  private buildRequestBody(
+    messages: AnthropicMessage[],
+    stream: boolean,
+    options?: ModelRequestOptions,
+    system?: string
+  ): Record<string, unknown> {
+    // The Messages API rejects stop sequences that are only whitespace
+    const stopSequences = options?.stopSequences?.filter(sequence => sequence.trim() !== '');
+    return {
+      model: options?.model || this.model,
+      messages,
+      system,
+      stream,
+      // max_tokens is required by the Messages API
+      max_tokens: options?.maxTokens ?? this.maxTokens,
+      temperature: options?.temperature ?? this.temperature,
+      top_p: options?.topP,
+      stop_sequences: stopSequences?.length ? stopSequences : undefined
+    };
+  }
+
+  /**
+   * Build request headers with the stored API key
+   */
+  private async getHeaders(): Promise<Record<string, string>> {
+    const apiKey = await this.configManager.getAnthropicApiKey();
+    if (!apiKey) {
+      throw new Error(ERROR_MESSAGES.API_KEY_MISSING);
+    }
+    return {
+      'Content-Type': 'application/json',
+      'x-api-key': apiKey,
+      'anthropic-version': ANTHROPIC_API_VERSION
+    };
+  }
+
+  /**
+   * Convert an error event received mid-stream into an Error
+   */
+  private createStreamError(error?: { type?: string; message?: string }): Error {
+    switch (error?.type) {
+      case 'rate_limit_error':
+        return new Error(ERROR_MESSAGES.RATE_LIMITED);
+      case 'overloaded_error':
+        return new Error(ERROR_MESSAGES.PROVIDER_OVERLOADED);
+      default:
+        return new Error(`Anthropic operation failed: ${error?.message || 'Unknown stream error'}`);
+    }
+  }
+
+  protected handleProviderError(error: unknown, silent = false, model?: string): Error {
+    if (error instanceof AxiosError && error.response) {
+      switch (error.response.status) {
+        case 401:
+        case 403:
+          if (!silent) {
+            vscode.window.showErrorMessage(
+              'Anthropic rejected the API key.',
+              'Set API Key'
+            ).then(selection => {
+              if (selection === 'Set API Key') {
+                vscode.commands.executeCommand('logcai.setAnthropicApiKey');
+              }
+            });
+          }
+          return new Error(ERROR_MESSAGES.API_KEY_MISSING);
+        case 404:
+          return new Error(`Anthropic model "${model || this.model}" not found.`);
+        case 429: {
+          const retryAfter = error.response.headers?.['retry-after'];
+          log.warn(`Anthropic rate limit reached${retryAfter ? `, retry after ${retryAfter}s` : ''}`);
+          return new Error(ERROR_MESSAGES.RATE_LIMITED);
+        }
+        case 529:
+          return new Error(ERROR_MESSAGES.PROVIDER_OVERLOADED);
+      }
+      // Streamed responses carry a stream instead of a parsed body
+      const data = error.response.data;
+      const detail = data && typeof data === 'object' && 'error' in data ? data.error?.message : undefined;
+      return new Error(`Anthropic operation failed: ${detail || error.message}`);
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    log.error(`Anthropic error: ${errorMessage}`);
+    return new Error(`Anthropic operation failed: ${errorMessage}`);
+  }
+}
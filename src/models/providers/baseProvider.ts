@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { ModelProvider, ModelRequestOptions } from '../interfaces';
+import { ChatMessage, ModelProvider, ModelRequestOptions } from '../interfaces';
 import { log } from '../../utils/logging';
 
 export abstract class BaseModelProvider implements ModelProvider {
@@ -16,12 +16,21 @@ export abstract class BaseModelProvider implements ModelProvider {
    */
   abstract isAvailable(): Promise<boolean>;
   
+  /**
+   * Check that the model provider responds, without prompts or notifications.
+   * Used by the background health probes.
+   */
+  async isReachable(): Promise<boolean> {
+    return this.isAvailable();
+  }
+  
   /**
    * Get a completion from the model
    * @param prompt The prompt to send to the model
    * @param options Optional request configuration
+   * @param token Cancellation token to abort the request
    */
-  abstract getCompletion(prompt: string, options?: ModelRequestOptions): Promise<string>;
+  abstract getCompletion(prompt: string, options?: ModelRequestOptions, token?: vscode.CancellationToken): Promise<string>;
   
   /**
    * Stream a completion from the model
@@ -37,17 +46,45 @@ export abstract class BaseModelProvider implements ModelProvider {
     options?: ModelRequestOptions
   ): Promise<void>;
   
+  /**
+   * Get a chat response from the model
+   * @param messages The conversation, including any system messages
+   * @param options Optional request configuration
+   * @param token Cancellation token to abort the request
+   */
+  abstract chat(messages: ChatMessage[], options?: ModelRequestOptions, token?: vscode.CancellationToken): Promise<string>;
+  
+  /**
+   * Stream a chat response from the model
+   * @param messages The conversation, including any system messages
+   * @param callback Function to call with each chunk of the response
+   * @param token Cancellation token to abort the request
+   * @param options Optional request configuration
+   */
+  abstract streamChat(
+    messages: ChatMessage[],
+    callback: (text: string, final: boolean) => void,
+    token?: vscode.CancellationToken,
+    options?: ModelRequestOptions
+  ): Promise<void>;
+  
   /**
    * Show progress indicator for model requests
    * @param title Progress indicator title
    * @param task Async task to run with progress
    * @param token Optional cancellation token
+   * @param silent Run the task without a notification and without showing errors
    */
   protected async withProgress<T>(
     title: string, 
     task: (progress: vscode.Progress<{ message?: string; increment?: number }>, token: vscode.CancellationToken) => Promise<T>,
-    token?: vscode.CancellationToken
+    token?: vscode.CancellationToken,
+    silent = false
   ): Promise<T> {
+    if (silent) {
+      return this.runSilently(task, token);
+    }
+
     try {
       return await vscode.window.withProgress(
         {
@@ -61,6 +98,9 @@ export abstract class BaseModelProvider implements ModelProvider {
           if (token) {
             // Dispose when either token is canceled
             token.onCancellationRequested(() => tokenSource.cancel());
+            if (token.isCancellationRequested) {
+              tokenSource.cancel();
+            }
           }
           progressToken.onCancellationRequested(() => tokenSource.cancel());
           const combinedToken = tokenSource.token;
@@ -81,16 +121,43 @@ export abstract class BaseModelProvider implements ModelProvider {
   }
   
   /**
-   * Process an error from the model provider
+   * Run a background task without progress reporting; errors are left to the caller
+   */
+  private async runSilently<T>(
+    task: (progress: vscode.Progress<{ message?: string; increment?: number }>, token: vscode.CancellationToken) => Promise<T>,
+    token?: vscode.CancellationToken
+  ): Promise<T> {
+    const tokenSource = new vscode.CancellationTokenSource();
+    const listener = token?.onCancellationRequested(() => tokenSource.cancel());
+    if (token?.isCancellationRequested) {
+      tokenSource.cancel();
+    }
+
+    try {
+      return await task({ report: () => undefined }, tokenSource.token);
+    } finally {
+      listener?.dispose();
+      tokenSource.dispose();
+    }
+  }
+  
+  /**
+   * Process an error from the model provider. Notifications are left to the caller;
+   * providers override this to offer actions such as setting an API key.
    * @param error The error to process
-   * @param operation The operation that failed
+   * @param silent The request runs in the background, so the error is only logged as a warning
+   * @param model The model the request was sent to, when not the configured one
    */
-  protected handleProviderError(error: unknown): Error {
+  protected handleProviderError(error: unknown, silent = false, model?: string): Error {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    log.error(`Provider error: ${errorMessage}`);
+    const context = model ? `${this.name} (${model})` : this.name;
+    if (silent) {
+      log.warn(`${context} error: ${errorMessage}`);
+    } else {
+      log.error(`${context} error: ${errorMessage}`);
+    }
     
     // Create an error with a user-friendly message
-    const userError = new Error(`Operation failed: ${errorMessage}`);
-    return userError;
+    return new Error(`${context} operation failed: ${errorMessage}`);
   }
 }
\ No newline at end of file
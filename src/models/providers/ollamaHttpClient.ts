@@ -0,0 +1,165 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as tls from 'tls';
+import axios, { AxiosProxyConfig, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+import { ConfigurationManager, LogCAIConfiguration } from '../../config/configuration';
+import { log } from '../../utils/logging';
+
+type ProxyConnectOptions = Parameters<HttpsProxyAgent<string>['connect']>[1];
+
+/**
+ * Tunnels https requests through a proxy with CONNECT. HttpsProxyAgent only
+ * uses its options for the connection to the proxy, so the certificate options
+ * are added to the TLS connection to the endpoint as well.
+ */
+class TunnellingAgent extends HttpsProxyAgent<string> {
+  constructor(proxyUrl: URL, private tlsOptions: tls.ConnectionOptions) {
+    super(proxyUrl, tlsOptions);
+  }
+
+  connect(req: http.ClientRequest, opts: ProxyConnectOptions): ReturnType<HttpsProxyAgent<string>['connect']> {
+    return super.connect(req, { ...opts, ...this.tlsOptions });
+  }
+}
+
+/**
+ * Sends requests to an Ollama server with the connection settings: extra
+ * headers, bearer or basic authentication, proxy, CA certificates and timeout.
+ * Ollama on a shared server is often behind a reverse proxy that needs these.
+ */
+export class OllamaHttpClient {
+  // Reading the certificates on every request would be wasteful, so the agent is kept until they change
+  private httpsAgent: http.Agent | undefined;
+  private httpsAgentKey = '';
+
+  constructor(private configManager: ConfigurationManager) {}
+
+  async get<T = any>(url: string, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    return axios.get<T>(url, await this.getRequestConfig(url, config));
+  }
+
+  async post<T = any>(url: string, data?: unknown, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    return axios.post<T>(url, data, await this.getRequestConfig(url, config));
+  }
+
+  async delete<T = any>(url: string, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    return axios.delete<T>(url, await this.getRequestConfig(url, config));
+  }
+
+  /**
+   * Add the connection settings to the options of a request. Options set by the
+   * caller win, e.g. the short timeout of an availability check; headers are merged.
+   */
+  async getRequestConfig(url: string, config: AxiosRequestConfig = {}): Promise<AxiosRequestConfig> {
+    const settings = this.configManager.getConfiguration();
+    const headers: Record<string, string> = {
+      ...settings.ollamaHeaders,
+      ...(await this.getAuthorizationHeader(settings)),
+      ...(config.headers as Record<string, string> | undefined)
+    };
+
+    // axios' proxy option sends https requests to the proxy without a CONNECT tunnel,
+    // so those go through a tunnelling agent and axios' own proxy handling is turned off
+    const proxyUrl = this.parseProxyUrl(settings.ollamaProxy);
+    const tunnel = proxyUrl !== undefined && /^https:/i.test(url);
+
+    return {
+      timeout: settings.ollamaRequestTimeout > 0 ? settings.ollamaRequestTimeout * 1000 : 0,
+      proxy: tunnel ? false : this.getProxy(proxyUrl),
+      httpsAgent: this.getHttpsAgent(settings, tunnel ? proxyUrl : undefined),
+      ...config,
+      headers
+    };
+  }
+
+  private async getAuthorizationHeader(settings: LogCAIConfiguration): Promise<Record<string, string>> {
+    if (settings.ollamaAuthType === 'none') {
+      return {};
+    }
+
+    const credential = await this.configManager.getOllamaCredential();
+    if (!credential) {
+      log.warn(`Ollama ${settings.ollamaAuthType} authentication is enabled, but no credential is stored`);
+      return {};
+    }
+
+    if (settings.ollamaAuthType === 'bearer') {
+      return { Authorization: `Bearer ${credential}` };
+    }
+    const encoded = Buffer.from(`${settings.ollamaUsername}:${credential}`).toString('base64');
+    return { Authorization: `Basic ${encoded}` };
+  }
+
+  /**
+   * Parse the proxy setting; undefined lets axios use the environment variables
+   */
+  private parseProxyUrl(proxyUrl: string): URL | undefined {
+    if (!proxyUrl.trim()) {
+      return undefined;
+    }
+
+    try {
+      return new URL(proxyUrl.trim());
+    } catch (error) {
+      log.warn(`Ignoring invalid Ollama proxy URL "${proxyUrl}"`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Convert the proxy URL to axios' proxy options, used for plain http endpoints
+   */
+  private getProxy(url: URL | undefined): AxiosProxyConfig | undefined {
+    if (!url) {
+      return undefined;
+    }
+
+    const isHttps = url.protocol === 'https:';
+    return {
+      protocol: url.protocol.replace(':', ''),
+      host: url.hostname,
+      port: url.port ? Number(url.port) : isHttps ? 443 : 80,
+      auth: url.username
+        ? { username: decodeURIComponent(url.username), password: decodeURIComponent(url.password) }
+        : undefined
+    };
+  }
+
+  /**
+   * Get the agent for https endpoints, tunnelling through the proxy when one is given.
+   * The certificate options apply to the connection to the endpoint either way.
+   */
+  private getHttpsAgent(settings: LogCAIConfiguration, proxyUrl?: URL): http.Agent | undefined {
+    const caPath = settings.ollamaCaCertificates.trim();
+    const allowUntrusted = settings.ollamaAllowUntrustedCertificates;
+    if (!proxyUrl && !caPath && !allowUntrusted) {
+      return undefined;
+    }
+
+    const key = `${proxyUrl?.href ?? ''}|${caPath}|${allowUntrusted}`;
+    if (this.httpsAgent && this.httpsAgentKey === key) {
+      return this.httpsAgent;
+    }
+
+    let ca: string[] | undefined;
+    if (caPath) {
+      try {
+        // Passing "ca" replaces the built-in list, so keep trusting the public CAs too
+        ca = [...tls.rootCertificates, fs.readFileSync(caPath, 'utf8')];
+      } catch (error) {
+        throw new Error(`Could not read the Ollama CA certificates from ${caPath}: ${(error as Error).message}`);
+      }
+    }
+
+    if (allowUntrusted) {
+      log.warn('Certificate verification is disabled for Ollama requests');
+    }
+    this.httpsAgent?.destroy();
+    const options = { ca, rejectUnauthorized: !allowUntrusted };
+    this.httpsAgent = proxyUrl ? new TunnellingAgent(proxyUrl, options) : new https.Agent(options);
+    this.httpsAgentKey = key;
+    return this.httpsAgent;
+  }
+}
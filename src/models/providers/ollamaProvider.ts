@@ -1,10 +1,12 @@
 import * as vscode from 'vscode';
 import axios, { AxiosResponse, AxiosError, CancelTokenSource } from 'axios';
 import { BaseModelProvider } from './baseProvider';
-import { ModelRequestOptions } from '../interfaces';
+import { ChatMessage, ModelRequestOptions } from '../interfaces';
 import { ConfigurationManager } from '../../config/configuration';
 import { log } from '../../utils/logging';
 import { ERROR_MESSAGES } from '../../config/constants';
+import { OllamaHttpClient } from './ollamaHttpClient';
+import { readNdjsonStream } from './streamDecoder';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
@@ -16,6 +18,29 @@ interface OllamaResponse {
   done: boolean;
 }
 
+/**
+ * A model loaded in Ollama's memory, from /api/ps
+ */
+export interface OllamaRunningModel {
+  name: string;
+  /** Memory used in bytes */
+  size: number;
+  /** Part of the memory that is on the GPU, in bytes */
+  sizeVram: number;
+  /** When Ollama unloads the model if it isn't used */
+  expiresAt?: string;
+}
+
+interface OllamaChatResponse {
+  model: string;
+  created_at: string;
+  message?: {
+    role: string;
+    content: string;
+  };
+  done: boolean;
+}
+
 export class OllamaProvider extends BaseModelProvider {
   readonly id = 'ollama';
   readonly name = 'Ollama';
@@ -27,23 +52,30 @@ export class OllamaProvider extends BaseModelProvider {
   private temperature!: number;
   private maxTokens!: number;
   private autoStartOllama!: boolean;
+  // Adds the headers, authentication, proxy and certificate settings to every request
+  private http: OllamaHttpClient;
   
   // Terminal reference
   private ollamaTerminal: vscode.Terminal | null = null;
   private startAttempted: boolean = false;
   
-  constructor(private configManager: ConfigurationManager) {
+  /**
+   * @param endpointOverride Endpoint of another Ollama host, used by the fallback chain
+   */
+  constructor(private configManager: ConfigurationManager, private endpointOverride?: string) {
     super();
+    this.http = new OllamaHttpClient(configManager);
     this.refreshConfiguration();
   }
   
   refreshConfiguration(): void {
     const config = this.configManager.getConfiguration();
-    this.endpoint = config.ollamaEndpoint;
+    this.endpoint = this.endpointOverride || config.ollamaEndpoint;
     this.model = config.ollamaModel;
     this.temperature = config.temperature;
     this.maxTokens = config.maxTokens;
-    this.autoStartOllama = config.autoStartOllama;
+    // Ollama can only be started on this machine
+    this.autoStartOllama = !this.endpointOverride && config.autoStartOllama;
     
     // Fix for endpoint variations
     this.baseUrl = this.getBaseUrl();
@@ -104,7 +136,7 @@ export class OllamaProvider extends BaseModelProvider {
       // Wait for Ollama to become available
       for (let attempt = 0; attempt < 10; attempt++) {
         try {
-          const response = await axios.get(`${this.baseUrl}/api/tags`, { timeout: 2000 });
+          const response = await this.http.get(`${this.baseUrl}/api/tags`, { timeout: 2000 });
           if (response.status === 200) {
             log.info('Successfully connected to Ollama service started in terminal');
             return true;
@@ -129,13 +161,23 @@ export class OllamaProvider extends BaseModelProvider {
     }
   }
 
+  async isReachable(): Promise<boolean> {
+    try {
+      await this.http.get(`${this.baseUrl}/api/tags`, { timeout: 5000 });
+      return true;
+    } catch (error) {
+      log.debug(`Ollama at ${this.baseUrl} is not reachable: ${(error as Error).message}`);
+      return false;
+    }
+  }
+
   /**
    * Check if Ollama is available, and offer to start it in a terminal if not
    */
   async isAvailable(): Promise<boolean> {
     try {
       // Try to connect to the Ollama API
-      const response = await axios.get(`${this.baseUrl}/api/tags`, { timeout: 5000 });
+      const response = await this.http.get(`${this.baseUrl}/api/tags`, { timeout: 5000 });
       const availableModels = response.data.models || [];
       
       // Check if the configured model exists
@@ -148,6 +190,12 @@ export class OllamaProvider extends BaseModelProvider {
     } catch (error) {
       log.error(`Ollama availability check failed: ${(error as Error).message}`);
       
+      // The server answered, so starting Ollama wouldn't help
+      if (this.isAuthError(error)) {
+        this.handleProviderError(error);
+        return false;
+      }
+      
       if (!this.autoStartOllama) {
         vscode.window.showErrorMessage(
           "Ollama is not running. Please start Ollama manually.",
@@ -198,23 +246,162 @@ export class OllamaProvider extends BaseModelProvider {
     }
   }
 
-  async getCompletion(prompt: string, options?: ModelRequestOptions): Promise<string> {
+  async getCompletion(prompt: string, options?: ModelRequestOptions, token?: vscode.CancellationToken): Promise<string> {
+    return this.sendRequest<OllamaResponse>(
+      '/api/generate',
+      this.buildGeneratePayload(prompt, options),
+      data => data.response,
+      options,
+      token
+    );
+  }
+
+  async streamCompletion(
+    prompt: string,
+    callback: (text: string, final: boolean) => void,
+    token?: vscode.CancellationToken,
+    options?: ModelRequestOptions
+  ): Promise<void> {
+    return this.streamRequest<OllamaResponse>(
+      '/api/generate',
+      this.buildGeneratePayload(prompt, options),
+      data => data.response,
+      callback,
+      token,
+      options
+    );
+  }
+
+  async chat(messages: ChatMessage[], options?: ModelRequestOptions, token?: vscode.CancellationToken): Promise<string> {
+    return this.sendRequest<OllamaChatResponse>(
+      '/api/chat',
+      { messages: this.toOllamaMessages(messages) },
+      data => data.message?.content ?? '',
+      options,
+      token
+    );
+  }
+
+  async streamChat(
+    messages: ChatMessage[],
+    callback: (text: string, final: boolean) => void,
+    token?: vscode.CancellationToken,
+    options?: ModelRequestOptions
+  ): Promise<void> {
+    return this.streamRequest<OllamaChatResponse>(
+      '/api/chat',
+      { messages: this.toOllamaMessages(messages) },
+      data => data.message?.content ?? '',
+      callback,
+      token,
+      options
+    );
+  }
+
+  /**
+   * Convert chat messages to the format expected by /api/chat
+   */
+  private toOllamaMessages(messages: ChatMessage[]): { role: string; content: string }[] {
+    return messages.map(message => ({
+      // Ollama has no "function" role, so pass such messages on as user input
+      role: message.role === 'function' ? 'user' : message.role,
+      content: message.content
+    }));
+  }
+
+  /**
+   * Build the /api/generate request fields, including fill-in-the-middle options
+   */
+  private buildGeneratePayload(prompt: string, options?: ModelRequestOptions): Record<string, unknown> {
+    return {
+      prompt,
+      suffix: options?.suffix,
+      raw: options?.raw
+    };
+  }
+
+  /**
+   * Convert a keep-alive setting to the value Ollama expects: seconds as a number or a duration string.
+   * Returns undefined for an empty setting so Ollama's default applies.
+   */
+  private parseKeepAlive(keepAlive?: string): string | number | undefined {
+    if (!keepAlive) {
+      return undefined;
+    }
+    return /^-?\d+$/.test(keepAlive.trim()) ? Number(keepAlive) : keepAlive.trim();
+  }
+
+  /**
+   * Load a model into memory without generating anything
+   * @param keepAlive How long to keep it loaded; Ollama's default when empty
+   * @param contextWindow num_ctx to load it with; Ollama's default when empty
+   */
+  async loadModel(model: string, keepAlive?: string, contextWindow?: number): Promise<void> {
+    await this.http.post(`${this.baseUrl}/api/generate`, {
+      model,
+      keep_alive: this.parseKeepAlive(keepAlive),
+      options: contextWindow ? { num_ctx: contextWindow } : undefined
+    });
+  }
+
+  /**
+   * Unload a model from memory
+   */
+  async unloadModel(model: string): Promise<void> {
+    await this.http.post(`${this.baseUrl}/api/generate`, { model, keep_alive: 0 });
+  }
+
+  /**
+   * Get the models that are loaded in memory
+   */
+  async getRunningModels(): Promise<OllamaRunningModel[]> {
+    const response = await this.http.get(`${this.baseUrl}/api/ps`, { timeout: 5000 });
+    return (response.data?.models ?? []).map((model: any) => ({
+      name: model.name,
+      size: model.size ?? 0,
+      sizeVram: model.size_vram ?? 0,
+      expiresAt: model.expires_at
+    }));
+  }
+
+  /**
+   * Build the generation options shared by all endpoints
+   */
+  private buildOptions(options?: ModelRequestOptions): Record<string, unknown> {
+    return {
+      temperature: options?.temperature ?? this.temperature,
+      num_predict: options?.maxTokens ?? this.maxTokens,
+      num_ctx: options?.contextWindow,
+      stop: options?.stopSequences || null
+    };
+  }
+
+  /**
+   * Send a non-streaming request to an Ollama endpoint
+   * @param apiPath The API path, e.g. /api/generate
+   * @param payload Endpoint specific request fields
+   * @param extractText Pulls the generated text out of the response
+   * @param options Optional request configuration
+   * @param externalToken Cancellation token to abort the request
+   */
+  private async sendRequest<T>(
+    apiPath: string,
+    payload: Record<string, unknown>,
+    extractText: (data: T) => string,
+    options?: ModelRequestOptions,
+    externalToken?: vscode.CancellationToken
+  ): Promise<string> {
     return this.withProgress('Generating response', async (progress, token) => {
       progress.report({ message: 'Starting model...' });
       try {
-        // Use the correct API endpoint for completions
-        const completionUrl = `${this.baseUrl}/api/generate`;
-        const response = await axios.post(
-          completionUrl,
+        const response = await this.http.post(
+          `${this.baseUrl}${apiPath}`,
           {
-            model: this.model,
-            prompt: prompt,
+            model: options?.model || this.model,
+            ...payload,
             stream: false,
-            options: {
-              temperature: options?.temperature ?? this.temperature,
-              num_predict: options?.maxTokens ?? this.maxTokens,
-              stop: options?.stopSequences || null
-            }
+            keep_alive: this.parseKeepAlive(options?.keepAlive),
+            options: this.buildOptions(options)
           },
           {
             cancelToken: new axios.CancelToken(cancel => {
@@ -225,7 +412,7 @@ export class OllamaProvider extends BaseModelProvider {
           }
         );
         progress.report({ message: 'Response received', increment: 100 });
-        return response.data.response;
+        return extractText(response.data as T);
       } catch (error) {
         if (axios.isCancel(error)) {
           log.info('Ollama request cancelled by user');
@@ -233,13 +420,24 @@ export class OllamaProvider extends BaseModelProvider {
         }
         const errorMsg = error instanceof Error ? error.message : String(error);
         log.error(`Ollama completion failed: ${errorMsg}`);
-        throw this.handleProviderError(error);
+        throw this.handleProviderError(error, options?.silent, options?.model);
       }
-    });
+    }, externalToken, options?.silent);
   }
 
-  async streamCompletion(
-    prompt: string,
+  /**
+   * Send a streaming request to an Ollama endpoint
+   * @param apiPath The API path, e.g. /api/chat
+   * @param payload Endpoint specific request fields
+   * @param extractText Pulls the generated text out of each streamed object
+   * @param callback Function to call with each chunk of the response
+   * @param token Cancellation token to abort the request
+   * @param options Optional request configuration
+   */
+  private async streamRequest<T extends { done: boolean; error?: string }>(
+    apiPath: string,
+    payload: Record<string, unknown>,
+    extractText: (data: T) => string,
     callback: (text: string, final: boolean) => void,
     token?: vscode.CancellationToken,
     options?: ModelRequestOptions
@@ -248,46 +446,56 @@ export class OllamaProvider extends BaseModelProvider {
       progress.report({ message: 'Starting model...' });
       // Create a merged cancellation token if an external one is provided
       const tokenSource = new vscode.CancellationTokenSource();
+      const subscriptions = [progressToken.onCancellationRequested(() => tokenSource.cancel())];
       if (token) {
-        token.onCancellationRequested(() => tokenSource.cancel());
+        subscriptions.push(token.onCancellationRequested(() => tokenSource.cancel()));
       }
-      progressToken.onCancellationRequested(() => tokenSource.cancel());
       const mergedToken = tokenSource.token;
       try {
-        // Use the correct API endpoint for streaming
-        const streamUrl = `${this.baseUrl}/api/generate`;
-        const response = await axios.post(
-          streamUrl,
-          {
-            model: this.model,
-            prompt: prompt,
-            stream: true,
-            options: {
-              temperature: options?.temperature ?? this.temperature,
-              num_predict: options?.maxTokens ?? this.maxTokens,
-              stop: options?.stopSequences || null
+        let response: AxiosResponse;
+        try {
+          response = await this.http.post(
+            `${this.baseUrl}${apiPath}`,
+            {
+              model: options?.model || this.model,
+              ...payload,
+              stream: true,
+              keep_alive: this.parseKeepAlive(options?.keepAlive),
+              options: this.buildOptions(options)
+            },
+            {
+              responseType: 'stream',
+              cancelToken: new axios.CancelToken(cancel => {
+                subscriptions.push(mergedToken.onCancellationRequested(() => {
+                  cancel('Operation cancelled by user');
+                }));
+              })
             }
-          },
-          {
-            responseType: 'stream',
-            cancelToken: new axios.CancelToken(cancel => {
-              mergedToken.onCancellationRequested(() => {
-                cancel('Operation cancelled by user');
-              });
-            })
+          );
+        } catch (error) {
+          if (axios.isCancel(error)) {
+            log.info('Ollama stream request cancelled by user');
+            return;
           }
-        );
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          log.error(`Ollama stream completion failed: ${errorMsg}`);
+          throw this.handleProviderError(error, options?.silent, options?.model);
+        }
         progress.report({ message: 'Generating...' });
         let processedChunks = 0;
         const totalChunks = options?.maxTokens ?? this.maxTokens;
         const chunkIncrement = 100 / Math.min(totalChunks, 100); // Update progress every X% of expected response
-        
-        response.data.on('data', (chunk: Buffer) => {
-          if (mergedToken.isCancellationRequested) {
-            return;
-          }
-          try {
-            const chunkData = JSON.parse(chunk.toString()) as OllamaResponse;
+
+        try {
+          // Chunks don't line up with the JSON lines, so the stream is decoded line by line
+          await readNdjsonStream<T>(response.data, chunkData => {
+            if (mergedToken.isCancellationRequested) {
+              return;
+            }
+            // Failures after streaming started arrive as an error line
+            if (chunkData.error) {
+              throw new Error(`Ollama operation failed: ${chunkData.error}`);
+            }
             // Progress updates (not too frequently)
             processedChunks++;
             if (processedChunks % 10 === 0) {
@@ -297,34 +505,22 @@ export class OllamaProvider extends BaseModelProvider {
               });
             }
             // Call the callback with the new chunk
-            callback(chunkData.response, chunkData.done);
-            if (chunkData.done) {
-              progress.report({ message: 'Response complete', increment: 100 });
-            }
-          } catch (err) {
-            log.error(`Error processing chunk: ${(err as Error).message}`);
-          }
-        });
-        
-        return new Promise<void>((resolve, reject) => {
-          response.data.on('end', () => {
-            progress.report({ message: 'Response complete', increment: 100 });
-            resolve();
+            callback(extractText(chunkData), chunkData.done);
           });
-          response.data.on('error', (err: Error) => {
-            reject(err);
-          });
-        });
-      } catch (error) {
-        if (axios.isCancel(error)) {
-          log.info('Ollama stream request cancelled by user');
-          return;
+        } catch (error) {
+          // Cancelling aborts the response stream
+          if (mergedToken.isCancellationRequested) {
+            log.info('Ollama stream request cancelled by user');
+            return;
+          }
+          throw error;
         }
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        log.error(`Ollama stream completion failed: ${errorMsg}`);
-        throw this.handleProviderError(error);
+        progress.report({ message: 'Response complete', increment: 100 });
+      } finally {
+        subscriptions.forEach(subscription => subscription.dispose());
+        tokenSource.dispose();
       }
-    });
+    }, token, options?.silent);
   }
 
   /**
@@ -350,35 +546,53 @@ export class OllamaProvider extends BaseModelProvider {
     }
   }
 
-  protected handleProviderError(error: unknown): Error {
+  protected handleProviderError(error: unknown, silent = false, model?: string): Error {
     if (error instanceof AxiosError) {
       if (error.code === 'ECONNREFUSED') {
         const errorMessage = ERROR_MESSAGES.OLLAMA_CONNECTION;
         // Show notification with action to install
-        vscode.window.showErrorMessage(
-          'Ollama is not running or not accessible. Make sure Ollama is installed and running.',
-          'Check Ollama'
-        ).then(selection => {
-          if (selection === 'Check Ollama') {
-            vscode.env.openExternal(vscode.Uri.parse('https://ollama.com/download'));
-          }
-        });
+        if (!silent) {
+          vscode.window.showErrorMessage(
+            'Ollama is not running or not accessible. Make sure Ollama is installed and running.',
+            'Check Ollama'
+          ).then(selection => {
+            if (selection === 'Check Ollama') {
+              vscode.env.openExternal(vscode.Uri.parse('https://ollama.com/download'));
+            }
+          });
+        }
         return new Error(errorMessage);
       }
       
-      if (error.response) {
-        // Handle 404 errors for model not found
-        if (error.response.status === 404) {
-          const modelName = this.model;
-          // Show notification with action to install the missing model
+      if (this.isAuthError(error)) {
+        if (!silent) {
           vscode.window.showErrorMessage(
-            `Model "${modelName}" not found in Ollama.`,
-            'Install Model'
+            `The Ollama server at ${this.baseUrl} rejected the credentials.`,
+            'Set Ollama Credentials'
           ).then(selection => {
-            if (selection === 'Install Model') {
-              vscode.commands.executeCommand('logcai.installOllamaModel');
+            if (selection === 'Set Ollama Credentials') {
+              vscode.commands.executeCommand('logcai.setOllamaCredentials');
             }
           });
+        }
+        return new Error(`Ollama authentication failed (HTTP ${error.response?.status})`);
+      }
+      
+      if (error.response) {
+        // Handle 404 errors for model not found
+        if (error.response.status === 404) {
+          const modelName = model || this.model;
+          // Show notification with action to install the missing model
+          if (!silent) {
+            vscode.window.showErrorMessage(
+              `Model "${modelName}" not found in Ollama.`,
+              'Install Model'
+            ).then(selection => {
+              if (selection === 'Install Model') {
+                vscode.commands.executeCommand('logcai.installOllamaModel');
+              }
+            });
+          }
           return new Error(`Ollama model "${modelName}" not found. You need to install the model first.`);
         }
         return new Error(`Ollama operation failed: ${error.response.data?.error || error.message}`);
@@ -390,6 +604,13 @@ export class OllamaProvider extends BaseModelProvider {
     return new Error(`Ollama operation failed: ${errorMessage}`);
   }
 
+  /**
+   * Whether the server, or a reverse proxy in front of it, rejected the request's credentials
+   */
+  private isAuthError(error: unknown): error is AxiosError {
+    return error instanceof AxiosError && (error.response?.status === 401 || error.response?.status === 403);
+  }
+
   dispose(): void {
     // Close the terminal if we created one
     if (this.ollamaTerminal) {
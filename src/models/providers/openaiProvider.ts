@@ -0,0 +1,314 @@
+import * as vscode from 'vscode';
+import axios, { AxiosError, AxiosResponse } from 'axios';
+import { BaseModelProvider } from './baseProvider';
+import { ChatMessage, ModelRequestOptions } from '../interfaces';
+import { ConfigurationManager } from '../../config/configuration';
+import { log } from '../../utils/logging';
+import { ERROR_MESSAGES } from '../../config/constants';
+import { readServerSentEvents } from './streamDecoder';
+
+interface OpenAIChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+interface OpenAIStreamChunk {
+  choices?: {
+    delta?: { content?: string | null };
+    finish_reason?: string | null;
+  }[];
+  error?: { message?: string };
+}
+
+/**
+ * Provider for the OpenAI chat completions API and any server that speaks the
+ * same protocol (llama.cpp server, vLLM, LM Studio, ...)
+ */
+export class OpenAIProvider extends BaseModelProvider {
+  readonly id = 'openai';
+  readonly name = 'OpenAI';
+
+  // Configuration properties
+  private baseUrl!: string;
+  private model!: string;
+  private temperature!: number;
+  private maxTokens!: number;
+
+  /**
+   * @param baseUrlOverride Base URL of another OpenAI-compatible server, used by the fallback chain
+   */
+  constructor(private configManager: ConfigurationManager, private baseUrlOverride?: string) {
+    super();
+    this.refreshConfiguration();
+  }
+
+  refreshConfiguration(): void {
+    const config = this.configManager.getConfiguration();
+    // Strip trailing slashes so paths can be appended safely
+    this.baseUrl = (this.baseUrlOverride || config.openaiBaseUrl).replace(/\/+$/, '');
+    this.model = config.openaiModel;
+    this.temperature = config.temperature;
+    this.maxTokens = config.maxTokens;
+    log.info(`OpenAI configuration refreshed: baseUrl=${this.baseUrl}, model=${this.model}`);
+  }
+
+  /**
+   * Check if the API is reachable with the stored credentials
+   */
+  async isAvailable(): Promise<boolean> {
+    try {
+      const headers = await this.getHeaders();
+      if (!headers['Authorization'] && this.isOfficialApi()) {
+        log.warn('OpenAI API key is not set');
+        return false;
+      }
+
+      const response = await axios.get(`${this.baseUrl}/models`, { headers, timeout: 5000 });
+      const availableModels: any[] = response.data?.data || [];
+
+      // Local servers often report a single model under an arbitrary name, so only warn
+      if (this.model && !availableModels.some(m => m.id === this.model)) {
+        log.warn(`OpenAI model ${this.model} not found in available models`);
+      }
+
+      return true;
+    } catch (error) {
+      log.error(`OpenAI availability check failed: ${(error as Error).message}`);
+      return false;
+    }
+  }
+
+  async getCompletion(prompt: string, options?: ModelRequestOptions, token?: vscode.CancellationToken): Promise<string> {
+    return this.sendMessages([{ role: 'user', content: prompt }], options, token);
+  }
+
+  async streamCompletion(
+    prompt: string,
+    callback: (text: string, final: boolean) => void,
+    token?: vscode.CancellationToken,
+    options?: ModelRequestOptions
+  ): Promise<void> {
+    return this.streamMessages([{ role: 'user', content: prompt }], callback, token, options);
+  }
+
+  async chat(messages: ChatMessage[], options?: ModelRequestOptions, token?: vscode.CancellationToken): Promise<string> {
+    return this.sendMessages(this.toOpenAIMessages(messages), options, token);
+  }
+
+  async streamChat(
+    messages: ChatMessage[],
+    callback: (text: string, final: boolean) => void,
+    token?: vscode.CancellationToken,
+    options?: ModelRequestOptions
+  ): Promise<void> {
+    return this.streamMessages(this.toOpenAIMessages(messages), callback, token, options);
+  }
+
+  /**
+   * Convert chat messages to the chat completions format
+   */
+  private toOpenAIMessages(messages: ChatMessage[]): OpenAIChatMessage[] {
+    return messages.map(message => ({
+      // Legacy "function" messages require a name, so pass them on as user input
+      role: message.role === 'function' ? 'user' : message.role,
+      content: message.content
+    }));
+  }
+
+  /**
+   * Send a non-streaming chat completions request
+   */
+  private async sendMessages(
+    messages: OpenAIChatMessage[],
+    options?: ModelRequestOptions,
+    externalToken?: vscode.CancellationToken
+  ): Promise<string> {
+    return this.withProgress('Generating response', async (progress, token) => {
+      progress.report({ message: 'Waiting for model...' });
+      try {
+        const response = await axios.post(
+          `${this.baseUrl}/chat/completions`,
+          this.buildRequestBody(messages, false, options),
+          {
+            headers: await this.getHeaders(),
+            cancelToken: new axios.CancelToken(cancel => {
+              token.onCancellationRequested(() => {
+                cancel('Operation cancelled by user');
+              });
+            })
+          }
+        );
+        progress.report({ message: 'Response received', increment: 100 });
+        return response.data?.choices?.[0]?.message?.content ?? '';
+      } catch (error) {
+        if (axios.isCancel(error)) {
+          log.info('OpenAI request cancelled by user');
+          return '';
+        }
+        throw this.handleProviderError(error, options?.silent, options?.model);
+      }
+    }, externalToken, options?.silent);
+  }
+
+  /**
+   * Send a streaming chat completions request and parse the server-sent events
+   */
+  private async streamMessages(
+    messages: OpenAIChatMessage[],
+    callback: (text: string, final: boolean) => void,
+    token?: vscode.CancellationToken,
+    options?: ModelRequestOptions
+  ): Promise<void> {
+    return this.withProgress('Streaming response', async (progress, mergedToken) => {
+      progress.report({ message: 'Waiting for model...' });
+      let response: AxiosResponse;
+      try {
+        response = await axios.post(
+          `${this.baseUrl}/chat/completions`,
+          this.buildRequestBody(messages, true, options),
+          {
+            headers: await this.getHeaders(),
+            responseType: 'stream',
+            cancelToken: new axios.CancelToken(cancel => {
+              mergedToken.onCancellationRequested(() => {
+                cancel('Operation cancelled by user');
+              });
+            })
+          }
+        );
+      } catch (error) {
+        if (axios.isCancel(error)) {
+          log.info('OpenAI stream request cancelled by user');
+          return;
+        }
+        throw this.handleProviderError(error, options?.silent, options?.model);
+      }
+      progress.report({ message: 'Generating...' });
+
+      let finished = false;
+      const finish = () => {
+        if (!finished) {
+          finished = true;
+          callback('', true);
+        }
+      };
+
+      try {
+        await readServerSentEvents(response.data, ({ data }) => {
+          if (mergedToken.isCancellationRequested || finished) {
+            return;
+          }
+          if (data === '[DONE]') {
+            finish();
+            return;
+          }
+          let parsed: OpenAIStreamChunk;
+          try {
+            parsed = JSON.parse(data) as OpenAIStreamChunk;
+          } catch (err) {
+            log.error(`Error processing OpenAI stream event: ${(err as Error).message}`);
+            return;
+          }
+          if (parsed.error) {
+            throw new Error(`OpenAI operation failed: ${parsed.error.message || 'Unknown stream error'}`);
+          }
+          const text = parsed.choices?.[0]?.delta?.content;
+          if (text) {
+            callback(text, false);
+          }
+        });
+      } catch (error) {
+        // Cancelling aborts the response stream
+        if (mergedToken.isCancellationRequested) {
+          log.info('OpenAI stream request cancelled by user');
+          return;
+        }
+        throw error;
+      }
+      finish();
+      progress.report({ message: 'Response complete', increment: 100 });
+    }, token, options?.silent);
+  }
+
+  /**
+   * Build the request body for the chat completions endpoint
+   */
+  private buildRequestBody(
+    messages: OpenAIChatMessage[],
+    stream: boolean,
+    options?: ModelRequestOptions
+  ): Record<string, unknown> {
+    return {
+      model: options?.model || this.model,
+      messages,
+      stream,
+      temperature: options?.temperature ?? this.temperature,
+      max_tokens: options?.maxTokens ?? this.maxTokens,
+      stop: options?.stopSequences?.length ? options.stopSequences : undefined,
+      top_p: options?.topP,
+      frequency_penalty: options?.frequencyPenalty,
+      presence_penalty: options?.presencePenalty
+    };
+  }
+
+  /**
+   * Build request headers, including the API key when one is stored
+   */
+  private async getHeaders(): Promise<Record<string, string>> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const apiKey = await this.configManager.getOpenAIApiKey();
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+    return headers;
+  }
+
+  /**
+   * Whether the base URL points to the hosted OpenAI API (which always requires a key)
+   */
+  private isOfficialApi(): boolean {
+    try {
+      return new URL(this.baseUrl).hostname === 'api.openai.com';
+    } catch (error) {
+      return false;
+    }
+  }
+
+  protected handleProviderError(error: unknown, silent = false, model?: string): Error {
+    if (error instanceof AxiosError) {
+      if (error.code === 'ECONNREFUSED') {
+        return new Error(`Could not connect to the OpenAI-compatible server at ${this.baseUrl}. Please check the base URL.`);
+      }
+
+      if (error.response) {
+        switch (error.response.status) {
+          case 401:
+          case 403:
+            if (!silent) {
+              vscode.window.showErrorMessage(
+                'OpenAI rejected the API key.',
+                'Set API Key'
+              ).then(selection => {
+                if (selection === 'Set API Key') {
+                  vscode.commands.executeCommand('logcai.setOpenAIApiKey');
+                }
+              });
+            }
+            return new Error(ERROR_MESSAGES.API_KEY_MISSING);
+          case 404:
+            return new Error(`OpenAI model "${model || this.model}" not found at ${this.baseUrl}.`);
+          case 429:
+            return new Error(ERROR_MESSAGES.RATE_LIMITED);
+        }
+        // Streamed responses carry a stream instead of a parsed body
+        const data = error.response.data;
+        const detail = data && typeof data === 'object' && 'error' in data ? data.error?.message : undefined;
+        return new Error(`OpenAI operation failed: ${detail || error.message}`);
+      }
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    log.error(`OpenAI error: ${errorMessage}`);
+    return new Error(`OpenAI operation failed: ${errorMessage}`);
+  }
+}
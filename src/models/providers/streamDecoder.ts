@@ -0,0 +1,186 @@
+import { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { log } from '../../utils/logging';
+
+/**
+ * One server-sent event
+ */
+export interface ServerSentEvent {
+  /** Value of the "event:" field; undefined for unnamed events */
+  event?: string;
+  /** Value of the "data:" fields, joined with newlines */
+  data: string;
+}
+
+/**
+ * Splits a byte stream into lines. A TCP chunk can end in the middle of a line
+ * or of a multi-byte UTF-8 character, so both are kept until the rest arrives.
+ */
+export class LineDecoder {
+  private decoder = new StringDecoder('utf8');
+  private buffer = '';
+
+  /**
+   * Decode a chunk and return the lines it completes
+   */
+  write(chunk: Buffer | string): string[] {
+    this.buffer += typeof chunk === 'string' ? chunk : this.decoder.write(chunk);
+    const lines = this.buffer.split(/\r?\n/);
+    this.buffer = lines.pop() ?? '';
+    return lines;
+  }
+
+  /**
+   * Return the last line when the stream did not end with a newline
+   */
+  end(): string[] {
+    const rest = this.buffer + this.decoder.end();
+    this.buffer = '';
+    return rest ? [rest] : [];
+  }
+}
+
+/**
+ * Collects the fields of server-sent events line by line. An event is complete
+ * at the blank line that follows it.
+ */
+export class ServerSentEventParser {
+  private eventType: string | undefined;
+  private dataLines: string[] = [];
+
+  /**
+   * Parse one line and return the event it completes, if any
+   */
+  parseLine(line: string): ServerSentEvent | undefined {
+    if (line === '') {
+      return this.dispatch();
+    }
+    // Lines starting with a colon are comments, used as keep-alives
+    if (line.startsWith(':')) {
+      return undefined;
+    }
+
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    let value = separator === -1 ? '' : line.slice(separator + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    if (field === 'event') {
+      this.eventType = value;
+    } else if (field === 'data') {
+      this.dataLines.push(value);
+    }
+    // "id" and "retry" only matter for reconnecting, which a completion request never does
+    return undefined;
+  }
+
+  /**
+   * Return the last event when the stream ended without a blank line
+   */
+  end(): ServerSentEvent | undefined {
+    return this.dispatch();
+  }
+
+  private dispatch(): ServerSentEvent | undefined {
+    const event = this.dataLines.length > 0
+      ? { event: this.eventType, data: this.dataLines.join('\n') }
+      : undefined;
+    this.eventType = undefined;
+    this.dataLines = [];
+    return event;
+  }
+}
+
+/**
+ * Read a streamed response line by line. Resolves when the stream ends and
+ * rejects when the stream fails, closes early or the handler throws, e.g.
+ * for an error event received mid-stream.
+ */
+function readLines(stream: Readable, onLine: (line: string) => void, onEnd: () => void): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const decoder = new LineDecoder();
+    let settled = false;
+
+    const fail = (err: Error) => {
+      if (!settled) {
+        settled = true;
+        stream.destroy();
+        reject(err);
+      }
+    };
+
+    stream.on('data', (chunk: Buffer | string) => {
+      if (settled) {
+        return;
+      }
+      try {
+        decoder.write(chunk).forEach(onLine);
+      } catch (err) {
+        fail(err instanceof Error ? err : new Error(String(err)));
+      }
+    });
+
+    stream.on('end', () => {
+      if (settled) {
+        return;
+      }
+      try {
+        decoder.end().forEach(onLine);
+        onEnd();
+        settled = true;
+        resolve();
+      } catch (err) {
+        fail(err instanceof Error ? err : new Error(String(err)));
+      }
+    });
+
+    stream.on('error', fail);
+    stream.on('close', () => fail(new Error('The connection closed before the response was complete')));
+  });
+}
+
+/**
+ * Read a newline-delimited JSON stream, such as Ollama's, calling the handler
+ * with each parsed object
+ */
+export function readNdjsonStream<T>(stream: Readable, onMessage: (message: T) => void): Promise<void> {
+  const handleLine = (line: string) => {
+    if (line.trim() === '') {
+      return;
+    }
+    let message: T;
+    try {
+      message = JSON.parse(line) as T;
+    } catch (err) {
+      log.warn(`Skipping invalid line in response stream: ${(err as Error).message}`);
+      return;
+    }
+    onMessage(message);
+  };
+  return readLines(stream, handleLine, () => undefined);
+}
+
+/**
+ * Read a server-sent events stream, such as OpenAI's or Anthropic's, calling
+ * the handler with each event
+ */
+export function readServerSentEvents(stream: Readable, onEvent: (event: ServerSentEvent) => void): Promise<void> {
+  const parser = new ServerSentEventParser();
+  return readLines(
+    stream,
+    line => {
+      const event = parser.parseLine(line);
+      if (event) {
+        onEvent(event);
+      }
+    },
+    () => {
+      const event = parser.end();
+      if (event) {
+        onEvent(event);
+      }
+    }
+  );
+}
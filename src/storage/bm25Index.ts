@@ -0,0 +1,107 @@
+import { tokenizeCode } from '../utils/textProcessing';
+
+// Standard BM25 parameters: term frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * In-memory inverted index with BM25 scoring
+ */
+export class BM25Index {
+  // term -> (document ID -> term frequency)
+  private postings: Map<string, Map<string, number>> = new Map();
+  // document ID -> (term -> term frequency), kept so documents can be removed
+  private documents: Map<string, Map<string, number>> = new Map();
+  private documentLengths: Map<string, number> = new Map();
+  private totalLength: number = 0;
+
+  /**
+   * Add or replace a document
+   */
+  add(id: string, text: string): void {
+    this.remove(id);
+
+    const tokens = tokenizeCode(text);
+    const termFrequencies = new Map<string, number>();
+    for (const token of tokens) {
+      termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1);
+    }
+
+    for (const [term, frequency] of termFrequencies) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(id, frequency);
+    }
+
+    this.documents.set(id, termFrequencies);
+    this.documentLengths.set(id, tokens.length);
+    this.totalLength += tokens.length;
+  }
+
+  /**
+   * Remove a document
+   */
+  remove(id: string): void {
+    const termFrequencies = this.documents.get(id);
+    if (!termFrequencies) {
+      return;
+    }
+
+    for (const term of termFrequencies.keys()) {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting?.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.totalLength -= this.documentLengths.get(id) || 0;
+    this.documents.delete(id);
+    this.documentLengths.delete(id);
+  }
+
+  /**
+   * Remove all documents
+   */
+  clear(): void {
+    this.postings.clear();
+    this.documents.clear();
+    this.documentLengths.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * Score all documents containing at least one query term
+   * @returns Map of document ID to BM25 score
+   */
+  search(query: string): Map<string, number> {
+    const scores = new Map<string, number>();
+    const documentCount = this.documents.size;
+    if (documentCount === 0) {
+      return scores;
+    }
+
+    const averageLength = this.totalLength / documentCount || 1;
+    const queryTerms = new Set(tokenizeCode(query));
+
+    for (const term of queryTerms) {
+      const posting = this.postings.get(term);
+      if (!posting) {
+        continue;
+      }
+
+      const idf = Math.log(1 + (documentCount - posting.size + 0.5) / (posting.size + 0.5));
+      for (const [id, frequency] of posting) {
+        const length = this.documentLengths.get(id) || 0;
+        const termScore = idf * (frequency * (K1 + 1)) /
+          (frequency + K1 * (1 - B + B * length / averageLength));
+        scores.set(id, (scores.get(id) || 0) + termScore);
+      }
+    }
+
+    return scores;
+  }
+}
@@ -0,0 +1,484 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CodeChunk } from './vectorStorage';
+import { log } from '../utils/logging';
+
+/**
+ * Version of the on-disk record format. Bump when records change incompatibly;
+ * logs with a different version are discarded and the workspace must be re-indexed.
+ */
+export const SCHEMA_VERSION = 1;
+
+// Pending writes are flushed after this delay or once this many records are queued
+const FLUSH_DELAY_MS = 1000;
+const MAX_PENDING_RECORDS = 200;
+
+// Compact once more than half of the log is superseded records (ignoring small logs)
+const MIN_COMPACTION_SIZE = 1024 * 1024;
+
+const READ_BLOCK_SIZE = 1024 * 1024;
+const NEWLINE = 0x0a;
+
+interface LogHeader {
+  schemaVersion: number;
+  createdAt: number;
+}
+
+/**
+ * A single entry of the append-only log
+ */
+export type LogRecord =
+  | { op: 'put'; chunk: CodeChunk }
+  | { op: 'delete'; id: string };
+
+/**
+ * In-memory view of a stored chunk. The content stays on disk and is read on demand;
+ * embeddings are kept in memory (as 32-bit floats) because every search scans them.
+ */
+export interface ChunkEntry extends Omit<CodeChunk, 'content' | 'embedding'> {
+  embedding?: Float32Array;
+  /** Byte offset of the record in the log, or -1 while the write is pending */
+  offset: number;
+  /** Byte length of the record, excluding the newline */
+  length: number;
+}
+
+interface PendingRecord {
+  line: string;
+  record: LogRecord;
+}
+
+/**
+ * Durable chunk store backed by an append-only JSON lines log.
+ *
+ * The first line is a header carrying the schema version; every following line is a
+ * put or delete record. Writes are batched, a truncated last line left by a crash is
+ * dropped on load, and the log is compacted by rewriting live records to a temporary
+ * file that atomically replaces the log.
+ */
+export class ChunkStore {
+  private entries: Map<string, ChunkEntry> = new Map();
+  private fileIndex: Map<string, Set<string>> = new Map();
+  private languageIndex: Map<string, Set<string>> = new Map();
+
+  private pendingRecords: PendingRecord[] = [];
+  private pendingChunks: Map<string, CodeChunk> = new Map();
+  private flushTimer: NodeJS.Timeout | undefined;
+  private fileSize: number = 0;
+
+  constructor(private logPath: string) {}
+
+  /**
+   * Open the log, creating it if needed, and replay its records
+   * @param onRecord Called for every record replayed, e.g. to rebuild secondary indexes
+   */
+  open(onRecord?: (record: LogRecord) => void): void {
+    fs.mkdirSync(path.dirname(this.logPath), { recursive: true });
+
+    if (!fs.existsSync(this.logPath)) {
+      this.writeEmptyLog();
+      return;
+    }
+
+    const fd = fs.openSync(this.logPath, 'r');
+    let validEnd = 0;
+    let headerChecked = false;
+    let compatible = true;
+    let skipped = 0;
+
+    try {
+      validEnd = this.forEachLine(fd, (line, offset) => {
+        if (!headerChecked) {
+          headerChecked = true;
+          compatible = this.isCompatibleHeader(line);
+          return compatible;
+        }
+
+        let record: LogRecord;
+        try {
+          record = JSON.parse(line.toString('utf8')) as LogRecord;
+        } catch (error) {
+          skipped++;
+          return true;
+        }
+
+        this.apply(record, offset, line.length);
+        onRecord?.(record);
+        return true;
+      });
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    if (!headerChecked || !compatible) {
+      log.warn(`Discarding chunk log with unsupported schema (expected version ${SCHEMA_VERSION}), re-index required`);
+      this.resetIndexes();
+      this.writeEmptyLog();
+      return;
+    }
+
+    if (skipped > 0) {
+      log.warn(`Skipped ${skipped} corrupted records in chunk log`);
+    }
+
+    // Anything after the last complete line is a partial write from a crash
+    const actualSize = fs.statSync(this.logPath).size;
+    if (validEnd < actualSize) {
+      log.warn(`Dropping ${actualSize - validEnd} bytes of incomplete data from chunk log`);
+      fs.truncateSync(this.logPath, validEnd);
+    }
+    this.fileSize = validEnd;
+
+    log.info(`Loaded ${this.entries.size} code chunks from chunk log`);
+    this.compactIfNeeded();
+  }
+
+  /**
+   * Add or replace a chunk. The write is queued and flushed in batches.
+   */
+  put(chunk: CodeChunk): void {
+    const record: LogRecord = { op: 'put', chunk };
+    this.apply(record, -1, 0);
+    this.pendingChunks.set(chunk.id, chunk);
+    this.enqueue(record);
+  }
+
+  /**
+   * Delete a chunk by ID
+   * @returns true if the chunk existed
+   */
+  delete(id: string): boolean {
+    if (!this.entries.has(id)) {
+      return false;
+    }
+    const record: LogRecord = { op: 'delete', id };
+    this.apply(record, -1, 0);
+    this.pendingChunks.delete(id);
+    this.enqueue(record);
+    return true;
+  }
+
+  /**
+   * Read a full chunk, including its content, from disk
+   */
+  get(id: string): CodeChunk | undefined {
+    const pending = this.pendingChunks.get(id);
+    if (pending) {
+      return pending;
+    }
+
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return undefined;
+    }
+
+    const fd = fs.openSync(this.logPath, 'r');
+    try {
+      const buffer = Buffer.alloc(entry.length);
+      fs.readSync(fd, buffer, 0, entry.length, entry.offset);
+      const record = JSON.parse(buffer.toString('utf8')) as LogRecord;
+      return record.op === 'put' ? record.chunk : undefined;
+    } catch (error) {
+      log.error(`Failed to read chunk ${id} from chunk log: ${error}`);
+      return undefined;
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  /**
+   * Get the in-memory entry of a chunk without reading its content
+   */
+  getEntry(id: string): ChunkEntry | undefined {
+    return this.entries.get(id);
+  }
+
+  /**
+   * Iterate over all entries, optionally restricted to a language
+   */
+  *getEntries(language?: string): IterableIterator<ChunkEntry> {
+    if (language === undefined) {
+      yield* this.entries.values();
+      return;
+    }
+    for (const id of this.languageIndex.get(language) || []) {
+      const entry = this.entries.get(id);
+      if (entry) {
+        yield entry;
+      }
+    }
+  }
+
+  /**
+   * Get the IDs of all chunks of a file
+   */
+  getIdsForFile(filePath: string): string[] {
+    return Array.from(this.fileIndex.get(filePath) || []);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Write all pending records to the log
+   */
+  flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    if (this.pendingRecords.length === 0) {
+      return;
+    }
+
+    const records = this.pendingRecords;
+    this.pendingRecords = [];
+
+    // Compute the offset of each record so the entries can point into the log
+    const latestPut = new Map<string, { offset: number; length: number }>();
+    let offset = this.fileSize;
+    for (const { line, record } of records) {
+      const length = Buffer.byteLength(line, 'utf8');
+      if (record.op === 'put') {
+        latestPut.set(record.chunk.id, { offset, length });
+      }
+      offset += length + 1;
+    }
+
+    try {
+      fs.appendFileSync(this.logPath, records.map(({ line }) => `${line}\n`).join(''), 'utf8');
+    } catch (error) {
+      log.error(`Failed to write chunk log: ${error}`);
+      // Keep the records queued so the next flush can retry
+      this.pendingRecords = records.concat(this.pendingRecords);
+      return;
+    }
+    this.fileSize = offset;
+
+    for (const [id, location] of latestPut) {
+      const entry = this.entries.get(id);
+      if (entry && this.pendingChunks.has(id)) {
+        entry.offset = location.offset;
+        entry.length = location.length;
+        this.pendingChunks.delete(id);
+      }
+    }
+
+    log.debug(`Flushed ${records.length} records to chunk log`);
+    this.compactIfNeeded();
+  }
+
+  /**
+   * Remove all chunks and truncate the log
+   */
+  clear(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    this.pendingRecords = [];
+    this.pendingChunks.clear();
+    this.resetIndexes();
+    this.writeEmptyLog();
+  }
+
+  /**
+   * Rewrite the log with only the live records
+   */
+  compact(): void {
+    this.flush();
+    if (this.pendingRecords.length > 0) {
+      // The flush failed, so some entries don't have a location in the log yet
+      return;
+    }
+
+    const tempPath = `${this.logPath}.tmp`;
+    const readFd = fs.openSync(this.logPath, 'r');
+    const writeFd = fs.openSync(tempPath, 'w');
+    const newLocations = new Map<string, number>();
+
+    try {
+      let offset = this.writeHeader(writeFd);
+
+      // Copy records in file order so the old log is read sequentially
+      const live = Array.from(this.entries.values()).sort((a, b) => a.offset - b.offset);
+      for (const entry of live) {
+        const buffer = Buffer.alloc(entry.length + 1);
+        fs.readSync(readFd, buffer, 0, entry.length, entry.offset);
+        buffer[entry.length] = NEWLINE;
+        fs.writeSync(writeFd, buffer);
+        newLocations.set(entry.id, offset);
+        offset += buffer.length;
+      }
+
+      fs.fsyncSync(writeFd);
+      this.fileSize = offset;
+    } catch (error) {
+      fs.closeSync(readFd);
+      fs.closeSync(writeFd);
+      fs.rmSync(tempPath, { force: true });
+      log.error(`Failed to compact chunk log: ${error}`);
+      return;
+    }
+
+    fs.closeSync(readFd);
+    fs.closeSync(writeFd);
+    fs.renameSync(tempPath, this.logPath);
+
+    for (const [id, offset] of newLocations) {
+      this.entries.get(id)!.offset = offset;
+    }
+    log.info(`Compacted chunk log to ${this.entries.size} chunks`);
+  }
+
+  /**
+   * Flush pending writes
+   */
+  dispose(): void {
+    this.flush();
+  }
+
+  private enqueue(record: LogRecord): void {
+    this.pendingRecords.push({ line: JSON.stringify(record), record });
+
+    if (this.pendingRecords.length >= MAX_PENDING_RECORDS) {
+      this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), FLUSH_DELAY_MS);
+    }
+  }
+
+  /**
+   * Apply a record to the in-memory entries and secondary indexes
+   */
+  private apply(record: LogRecord, offset: number, length: number): void {
+    if (record.op === 'delete') {
+      const existing = this.entries.get(record.id);
+      if (existing) {
+        this.entries.delete(record.id);
+        this.removeFromIndex(this.fileIndex, existing.filePath, record.id);
+        this.removeFromIndex(this.languageIndex, existing.language, record.id);
+      }
+      return;
+    }
+
+    const { content, embedding, ...metadata } = record.chunk;
+    const existing = this.entries.get(metadata.id);
+    if (existing) {
+      this.removeFromIndex(this.fileIndex, existing.filePath, metadata.id);
+      this.removeFromIndex(this.languageIndex, existing.language, metadata.id);
+    }
+
+    this.entries.set(metadata.id, {
+      ...metadata,
+      embedding: embedding ? Float32Array.from(embedding) : undefined,
+      offset,
+      length
+    });
+    this.addToIndex(this.fileIndex, metadata.filePath, metadata.id);
+    this.addToIndex(this.languageIndex, metadata.language, metadata.id);
+  }
+
+  private addToIndex(index: Map<string, Set<string>>, key: string, id: string): void {
+    let ids = index.get(key);
+    if (!ids) {
+      ids = new Set();
+      index.set(key, ids);
+    }
+    ids.add(id);
+  }
+
+  private removeFromIndex(index: Map<string, Set<string>>, key: string, id: string): void {
+    const ids = index.get(key);
+    ids?.delete(id);
+    if (ids?.size === 0) {
+      index.delete(key);
+    }
+  }
+
+  private resetIndexes(): void {
+    this.entries.clear();
+    this.fileIndex.clear();
+    this.languageIndex.clear();
+  }
+
+  private isCompatibleHeader(line: Buffer): boolean {
+    try {
+      const header = JSON.parse(line.toString('utf8')) as LogHeader;
+      return header.schemaVersion === SCHEMA_VERSION;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Replace the log with one containing only the header
+   */
+  private writeEmptyLog(): void {
+    const fd = fs.openSync(this.logPath, 'w');
+    try {
+      this.fileSize = this.writeHeader(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  private writeHeader(fd: number): number {
+    const header: LogHeader = { schemaVersion: SCHEMA_VERSION, createdAt: Date.now() };
+    return fs.writeSync(fd, `${JSON.stringify(header)}\n`);
+  }
+
+  private compactIfNeeded(): void {
+    if (this.fileSize < MIN_COMPACTION_SIZE || this.pendingRecords.length > 0) {
+      return;
+    }
+
+    let liveSize = 0;
+    for (const entry of this.entries.values()) {
+      liveSize += entry.length + 1;
+    }
+    if (liveSize < this.fileSize / 2) {
+      this.compact();
+    }
+  }
+
+  /**
+   * Read the log block by block and call back for every complete line
+   * @param callback Return false to stop reading
+   * @returns Byte offset just past the last complete line that was read
+   */
+  private forEachLine(fd: number, callback: (line: Buffer, offset: number) => boolean): number {
+    const block = Buffer.alloc(READ_BLOCK_SIZE);
+    let carry = Buffer.alloc(0);
+    let carryOffset = 0;
+    let position = 0;
+
+    for (;;) {
+      const bytesRead = fs.readSync(fd, block, 0, READ_BLOCK_SIZE, position);
+      if (bytesRead === 0) {
+        return carryOffset;
+      }
+      position += bytesRead;
+
+      const data = carry.length > 0
+        ? Buffer.concat([carry, block.subarray(0, bytesRead)])
+        : block.subarray(0, bytesRead);
+
+      let start = 0;
+      let newline = data.indexOf(NEWLINE, start);
+      while (newline !== -1) {
+        const line = data.subarray(start, newline);
+        if (line.length > 0 && !callback(line, carryOffset + start)) {
+          return carryOffset + newline + 1;
+        }
+        start = newline + 1;
+        newline = data.indexOf(NEWLINE, start);
+      }
+
+      // Copy the incomplete tail since the block buffer is reused
+      carry = Buffer.from(data.subarray(start));
+      carryOffset += start;
+    }
+  }
+}
@@ -3,6 +3,7 @@ import * as path from 'path';
 import { CodeChunk, VectorStorage } from './vectorStorage';
 import { log } from '../utils/logging';
 import { ConfigurationManager } from '../config/configuration';
+import { EmbeddingProvider } from './embeddingProvider';
 
 /**
  * Service for indexing code and files into vector storage
@@ -13,6 +14,8 @@ export class CodeIndexer {
   private filesIndexed: number = 0;
   private progressBar: vscode.Progress<{ message?: string; increment?: number }> | undefined;
   private cancelTokenSource: vscode.CancellationTokenSource | undefined;
+  private embeddingProvider: EmbeddingProvider | undefined;
+  private embeddingFailureLogged: boolean = false;
 
   constructor(
     private vectorStorage: VectorStorage,
@@ -21,6 +24,14 @@ export class CodeIndexer {
     this.maxFilesToProcess = configManager.getConfiguration().maxFilesToProcess;
   }
 
+  /**
+   * Set the provider used to embed chunks (undefined disables embeddings)
+   */
+  setEmbeddingProvider(provider: EmbeddingProvider | undefined): void {
+    this.embeddingProvider = provider;
+    this.embeddingFailureLogged = false;
+  }
+
   /**
    * Start incremental indexing of the workspace
    */
@@ -127,6 +138,9 @@ export class CodeIndexer {
       // Extract code chunks
       const chunks = await this.extractCodeChunks(document);
       
+      // Compute embeddings for semantic search
+      await this.embedChunks(chunks);
+      
       // Add chunks to vector storage
       for (const chunk of chunks) {
         await this.vectorStorage.addChunk(chunk);
@@ -138,6 +152,29 @@ export class CodeIndexer {
     }
   }
 
+  /**
+   * Fill in the embedding of each chunk, leaving chunks unembedded if the provider fails
+   */
+  private async embedChunks(chunks: CodeChunk[]): Promise<void> {
+    if (!this.embeddingProvider || chunks.length === 0) {
+      return;
+    }
+    
+    try {
+      const embeddings = await this.embeddingProvider.embed(chunks.map(chunk => chunk.content));
+      chunks.forEach((chunk, index) => {
+        chunk.embedding = embeddings[index];
+        chunk.embeddingModel = this.embeddingProvider!.key;
+      });
+    } catch (error) {
+      // Log once per provider so a missing embedding model doesn't flood the output
+      if (!this.embeddingFailureLogged) {
+        this.embeddingFailureLogged = true;
+        log.warn(`Failed to compute embeddings with ${this.embeddingProvider.key}, using keyword search: ${error}`);
+      }
+    }
+  }
+
   /**
    * Extract code chunks from a document
    */
@@ -0,0 +1,177 @@
+import axios from 'axios';
+import * as crypto from 'crypto';
+import { ConfigurationManager } from '../config/configuration';
+import { OllamaHttpClient } from '../models/providers/ollamaHttpClient';
+import { log } from '../utils/logging';
+
+// Chunks can be whole files, so cap the text sent to the embedding model
+const MAX_EMBEDDING_INPUT_LENGTH = 8000;
+
+/**
+ * Turns text into embedding vectors for semantic search
+ */
+export interface EmbeddingProvider {
+  /** Identifies the provider and model; embeddings from different keys are not comparable */
+  readonly key: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Embeddings from Ollama's /api/embeddings endpoint
+ */
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  readonly key: string;
+
+  constructor(private baseUrl: string, private model: string, private http: OllamaHttpClient) {
+    this.key = `ollama:${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const embeddings: number[][] = [];
+    // The endpoint takes a single prompt, so embed sequentially to keep the local model responsive
+    for (const text of texts) {
+      const response = await this.http.post(
+        `${this.baseUrl}/api/embeddings`,
+        {
+          model: this.model,
+          prompt: text.substring(0, MAX_EMBEDDING_INPUT_LENGTH)
+        },
+        { timeout: 30000 }
+      );
+      if (!Array.isArray(response.data?.embedding)) {
+        throw new Error(`Ollama returned no embedding for model "${this.model}"`);
+      }
+      embeddings.push(response.data.embedding);
+    }
+    return embeddings;
+  }
+}
+
+/**
+ * Embeddings from an OpenAI-compatible /embeddings endpoint
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly key: string;
+
+  constructor(
+    private baseUrl: string,
+    private model: string,
+    private getApiKey: () => Promise<string | undefined>
+  ) {
+    this.key = `openai:${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const apiKey = await this.getApiKey();
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    const response = await axios.post(
+      `${this.baseUrl}/embeddings`,
+      {
+        model: this.model,
+        input: texts.map(text => text.substring(0, MAX_EMBEDDING_INPUT_LENGTH))
+      },
+      { headers, timeout: 30000 }
+    );
+
+    const data: { index: number; embedding: number[] }[] = response.data?.data || [];
+    return data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
+
+/**
+ * Deterministic feature-hashing embedder that needs no model.
+ * Useful offline and for testing the search pipeline.
+ */
+export class HashEmbeddingProvider implements EmbeddingProvider {
+  readonly key: string;
+
+  constructor(private dimensions: number = 256) {
+    this.key = `hash:${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = text.toLowerCase().match(/[a-z0-9_]+/g) || [];
+
+    for (const token of tokens) {
+      const digest = crypto.createHash('md5').update(token).digest();
+      const bucket = digest.readUInt32LE(0) % this.dimensions;
+      // Use a hash bit as the sign so collisions tend to cancel out
+      vector[bucket] += (digest[4] & 1) === 0 ? 1 : -1;
+    }
+
+    return normalize(vector);
+  }
+}
+
+/**
+ * Compute the cosine similarity of two vectors (0 if they are not comparable)
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+/**
+ * Create the embedding provider selected in the configuration
+ * @returns undefined when embeddings are disabled
+ */
+export function createEmbeddingProvider(configManager: ConfigurationManager): EmbeddingProvider | undefined {
+  const config = configManager.getConfiguration();
+  // A provider or model assigned to the embedding role replaces the embedding settings
+  const role = configManager.getModelRole('embedding');
+  const embeddingModel = role.model || config.embeddingModel;
+
+  switch (role.provider ?? config.embeddingProvider) {
+    case 'ollama': {
+      let baseUrl = 'http://localhost:11434';
+      try {
+        const url = new URL(config.ollamaEndpoint);
+        baseUrl = `${url.protocol}//${url.host}`;
+      } catch (error) {
+        log.warn(`Invalid Ollama endpoint "${config.ollamaEndpoint}", using default for embeddings`);
+      }
+      return new OllamaEmbeddingProvider(baseUrl, embeddingModel || 'nomic-embed-text', new OllamaHttpClient(configManager));
+    }
+    case 'openai':
+      return new OpenAIEmbeddingProvider(
+        config.openaiBaseUrl.replace(/\/+$/, ''),
+        embeddingModel || 'text-embedding-3-small',
+        () => configManager.getOpenAIApiKey()
+      );
+    case 'hash':
+      return new HashEmbeddingProvider();
+    default:
+      return undefined;
+  }
+}
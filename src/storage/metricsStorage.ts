@@ -0,0 +1,240 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { SuggestionEvent } from '../models/interfaces';
+import { log } from '../utils/logging';
+
+const METRICS_VERSION = 1;
+// Recent response times kept per model and language for the percentiles
+const MAX_LATENCY_SAMPLES = 500;
+const SAVE_DELAY_MS = 5000;
+
+/**
+ * Inline suggestion counts for one model in one language
+ */
+export interface SuggestionMetrics {
+  model: string;
+  languageId: string;
+  shown: number;
+  /** Suggestions accepted in full */
+  accepted: number;
+  /** Words and lines accepted from suggestions */
+  partialAccepts: number;
+  dismissed: number;
+  charactersAccepted: number;
+  /** Most recent model response times in milliseconds */
+  latencies: number[];
+}
+
+/**
+ * Metrics summarized for display
+ */
+export interface MetricsSummary {
+  model: string;
+  /** Undefined when the summary covers all languages */
+  languageId?: string;
+  shown: number;
+  accepted: number;
+  partialAccepts: number;
+  dismissed: number;
+  charactersAccepted: number;
+  /** Accepted suggestions per shown suggestion, between 0 and 1 */
+  acceptanceRate: number;
+  latencyP50?: number;
+  latencyP90?: number;
+  latencyP99?: number;
+}
+
+/**
+ * Records inline suggestion metrics in the extension's global storage.
+ * The metrics never leave the machine; they exist so models can be compared.
+ */
+export class MetricsStorage implements vscode.Disposable {
+  private metricsPath: string;
+  private metrics: Map<string, SuggestionMetrics> = new Map();
+  private saveTimer: NodeJS.Timeout | undefined;
+
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._onDidChange.event;
+
+  constructor(context: vscode.ExtensionContext) {
+    this.metricsPath = path.join(context.globalStorageUri.fsPath, 'metrics.json');
+  }
+
+  /**
+   * Load the stored metrics
+   */
+  initialize(): void {
+    try {
+      if (!fs.existsSync(this.metricsPath)) {
+        return;
+      }
+      const data = JSON.parse(fs.readFileSync(this.metricsPath, 'utf8'));
+      if (data.version !== METRICS_VERSION) {
+        log.warn(`Ignoring metrics with unsupported version ${data.version}`);
+        return;
+      }
+      for (const entry of data.metrics as SuggestionMetrics[]) {
+        this.metrics.set(this.getKey(entry.model, entry.languageId), entry);
+      }
+      log.info(`Loaded inline suggestion metrics for ${this.metrics.size} model/language pairs`);
+    } catch (error) {
+      log.error(`Failed to load metrics: ${error}`);
+    }
+  }
+
+  /**
+   * Record an inline suggestion event
+   */
+  record(event: SuggestionEvent): void {
+    const entry = this.getOrCreate(event.model, event.languageId);
+
+    switch (event.type) {
+      case 'shown':
+        entry.shown++;
+        break;
+      case 'dismissed':
+        entry.dismissed++;
+        break;
+      case 'accepted':
+        if (event.kind === 'full') {
+          entry.accepted++;
+        } else {
+          entry.partialAccepts++;
+        }
+        entry.charactersAccepted += event.characters ?? 0;
+        break;
+      case 'completed':
+        if (event.latencyMs !== undefined) {
+          entry.latencies.push(event.latencyMs);
+          if (entry.latencies.length > MAX_LATENCY_SAMPLES) {
+            entry.latencies.splice(0, entry.latencies.length - MAX_LATENCY_SAMPLES);
+          }
+        }
+        break;
+    }
+
+    this.scheduleSave();
+    this._onDidChange.fire();
+  }
+
+  /**
+   * Summarize the metrics per model, across all languages
+   */
+  getModelSummaries(): MetricsSummary[] {
+    const byModel = new Map<string, SuggestionMetrics[]>();
+    for (const entry of this.metrics.values()) {
+      byModel.set(entry.model, [...(byModel.get(entry.model) ?? []), entry]);
+    }
+    return Array.from(byModel.entries())
+      .map(([model, entries]) => this.summarize(model, undefined, entries))
+      .sort((a, b) => b.shown - a.shown);
+  }
+
+  /**
+   * Summarize the metrics per model and language
+   */
+  getLanguageSummaries(): MetricsSummary[] {
+    return Array.from(this.metrics.values())
+      .map(entry => this.summarize(entry.model, entry.languageId, [entry]))
+      .sort((a, b) => a.model.localeCompare(b.model) || b.shown - a.shown);
+  }
+
+  /**
+   * Delete all recorded metrics
+   */
+  clear(): void {
+    this.metrics.clear();
+    this.save();
+    this._onDidChange.fire();
+  }
+
+  private summarize(model: string, languageId: string | undefined, entries: SuggestionMetrics[]): MetricsSummary {
+    const sum = (field: 'shown' | 'accepted' | 'partialAccepts' | 'dismissed' | 'charactersAccepted') =>
+      entries.reduce((total, entry) => total + entry[field], 0);
+    const latencies = entries.flatMap(entry => entry.latencies).sort((a, b) => a - b);
+    const shown = sum('shown');
+    const accepted = sum('accepted');
+
+    return {
+      model,
+      languageId,
+      shown,
+      accepted,
+      partialAccepts: sum('partialAccepts'),
+      dismissed: sum('dismissed'),
+      charactersAccepted: sum('charactersAccepted'),
+      acceptanceRate: shown > 0 ? accepted / shown : 0,
+      latencyP50: this.percentile(latencies, 0.5),
+      latencyP90: this.percentile(latencies, 0.9),
+      latencyP99: this.percentile(latencies, 0.99)
+    };
+  }
+
+  /**
+   * Nearest-rank percentile of sorted values
+   */
+  private percentile(sorted: number[], fraction: number): number | undefined {
+    if (sorted.length === 0) {
+      return undefined;
+    }
+    const rank = Math.ceil(fraction * sorted.length);
+    return sorted[Math.max(0, rank - 1)];
+  }
+
+  private getOrCreate(model: string, languageId: string): SuggestionMetrics {
+    const key = this.getKey(model, languageId);
+    let entry = this.metrics.get(key);
+    if (!entry) {
+      entry = {
+        model,
+        languageId,
+        shown: 0,
+        accepted: 0,
+        partialAccepts: 0,
+        dismissed: 0,
+        charactersAccepted: 0,
+        latencies: []
+      };
+      this.metrics.set(key, entry);
+    }
+    return entry;
+  }
+
+  private getKey(model: string, languageId: string): string {
+    return `${model}\u0000${languageId}`;
+  }
+
+  /**
+   * Save at most every few seconds, since events arrive with every keystroke
+   */
+  private scheduleSave(): void {
+    if (!this.saveTimer) {
+      this.saveTimer = setTimeout(() => this.save(), SAVE_DELAY_MS);
+    }
+  }
+
+  private save(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    try {
+      fs.mkdirSync(path.dirname(this.metricsPath), { recursive: true });
+      fs.writeFileSync(
+        this.metricsPath,
+        JSON.stringify({ version: METRICS_VERSION, metrics: Array.from(this.metrics.values()) }),
+        'utf8'
+      );
+    } catch (error) {
+      log.error(`Failed to save metrics: ${error}`);
+    }
+  }
+
+  dispose(): void {
+    if (this.saveTimer) {
+      this.save();
+    }
+    this._onDidChange.dispose();
+  }
+}
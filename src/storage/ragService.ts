@@ -1,7 +1,8 @@
 import * as vscode from 'vscode';
-import { VectorStorage, SearchResult, CodeChunk } from './vectorStorage';
+import { VectorStorage, SearchResult, SearchOptions } from './vectorStorage';
 import { CodeIndexer, setupCodeIndexing } from './codeIndexer';
 import { ConfigurationManager } from '../config/configuration';
+import { createEmbeddingProvider } from './embeddingProvider';
 import { log } from '../utils/logging';
 
 /**
@@ -19,6 +20,17 @@ export class RAGService {
   ) {
     this.vectorStorage = new VectorStorage(context);
     this.codeIndexer = setupCodeIndexing(context, this.vectorStorage, configManager);
+    this.refreshConfiguration();
+  }
+
+  /**
+   * Recreate the embedding provider from the current configuration
+   */
+  refreshConfiguration(): void {
+    const embeddingProvider = createEmbeddingProvider(this.configManager);
+    this.vectorStorage.setEmbeddingProvider(embeddingProvider);
+    this.codeIndexer.setEmbeddingProvider(embeddingProvider);
+    log.info(`RAG embeddings: ${embeddingProvider ? embeddingProvider.key : 'disabled'}`);
   }
 
   /**
@@ -52,11 +64,11 @@ export class RAGService {
     }
 
     // Create search options with optional language filter
-    const options = {
+    const options: SearchOptions = {
       limit,
       threshold: 0.2,
-      filter: language ? ((chunk: CodeChunk) => chunk.language === language) : undefined
-            };
+      language
+    };
 
     // Search for relevant code
     return this.vectorStorage.search(query, options);
@@ -125,4 +137,11 @@ export class RAGService {
     await this.vectorStorage.clear();
     log.info('Cleared all indexed data');
   }
+
+  /**
+   * Flush pending index writes
+   */
+  dispose(): void {
+    this.vectorStorage.dispose();
+  }
 }
\ No newline at end of file
@@ -0,0 +1,292 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import { Conversation } from '../models/interfaces';
+import { log } from '../utils/logging';
+
+/**
+ * Lightweight description of a stored conversation, used for listing
+ */
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+}
+
+const DEFAULT_TITLE = 'New Conversation';
+const MAX_TITLE_LENGTH = 60;
+
+/**
+ * Persists chat conversations per workspace under the extension's global storage.
+ * Each conversation is stored in its own file, with a small index for listing.
+ */
+export class SessionStorage {
+  private storageDir: string;
+  private index: Map<string, ConversationSummary> = new Map();
+  // Lowercased message contents for searching, loaded on the first search
+  private searchText: Map<string, string> | undefined;
+  private searchTextLoading: Promise<Map<string, string>> | undefined;
+  // Writes run one at a time so the index file is never written concurrently
+  private writeQueue: Promise<void> = Promise.resolve();
+  private initialized: boolean = false;
+
+  constructor(private context: vscode.ExtensionContext) {
+    this.storageDir = path.join(context.globalStorageUri.fsPath, 'sessions', this.getWorkspaceKey());
+  }
+
+  /**
+   * Initialize the session storage
+   */
+  async initialize(): Promise<void> {
+    try {
+      await fs.promises.mkdir(this.storageDir, { recursive: true });
+      await this.loadIndex();
+
+      this.initialized = true;
+      log.info(`Session storage initialized with ${this.index.size} conversations`);
+    } catch (error) {
+      log.error(`Failed to initialize session storage: ${error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a conversation title from the first user message
+   */
+  static createTitle(text: string): string {
+    const firstLine = text.trim().split('\n')[0].replace(/\s+/g, ' ');
+    if (!firstLine) {
+      return DEFAULT_TITLE;
+    }
+    return firstLine.length > MAX_TITLE_LENGTH
+      ? `${firstLine.substring(0, MAX_TITLE_LENGTH - 3).trimEnd()}...`
+      : firstLine;
+  }
+
+  /**
+   * Save a conversation, creating or updating its file
+   */
+  async saveConversation(conversation: Conversation): Promise<void> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    // Auto-title from the first user message
+    if (!conversation.titleSet) {
+      const firstUserMessage = conversation.messages.find(message => message.role === 'user');
+      if (firstUserMessage) {
+        conversation.title = SessionStorage.createTitle(firstUserMessage.content);
+        conversation.titleSet = true;
+      }
+    }
+
+    this.index.set(conversation.id, this.summarize(conversation));
+    this.searchText?.set(conversation.id, this.getSearchText(conversation));
+
+    const data = JSON.stringify(conversation);
+    await this.enqueueWrite(async () => {
+      try {
+        await fs.promises.writeFile(this.getConversationPath(conversation.id), data, 'utf8');
+        await this.saveIndex();
+      } catch (error) {
+        log.error(`Failed to save conversation ${conversation.id}: ${error}`);
+      }
+    });
+  }
+
+  /**
+   * Load a conversation by ID
+   */
+  async loadConversation(id: string): Promise<Conversation | undefined> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    try {
+      return await this.readConversation(this.getConversationPath(id));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log.error(`Failed to load conversation ${id}: ${error}`);
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * List conversations, most recently updated first
+   * @param query Optional text to match against titles and message contents
+   */
+  async listConversations(query?: string): Promise<ConversationSummary[]> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    let summaries = Array.from(this.index.values());
+
+    const normalizedQuery = query?.trim().toLowerCase();
+    if (normalizedQuery) {
+      const searchText = await this.loadSearchText();
+      summaries = summaries.filter(summary =>
+        summary.title.toLowerCase().includes(normalizedQuery) ||
+        searchText.get(summary.id)?.includes(normalizedQuery)
+      );
+    }
+
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Rename a conversation
+   */
+  async renameConversation(id: string, title: string): Promise<boolean> {
+    const conversation = await this.loadConversation(id);
+    if (!conversation) {
+      return false;
+    }
+
+    conversation.title = title.trim() || DEFAULT_TITLE;
+    // Keep the chosen title, even the default one, instead of generating a new one
+    conversation.titleSet = true;
+    await this.saveConversation(conversation);
+    return true;
+  }
+
+  /**
+   * Delete a conversation
+   */
+  async deleteConversation(id: string): Promise<boolean> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    const result = this.index.delete(id);
+    this.searchText?.delete(id);
+
+    return this.enqueueWrite(async () => {
+      try {
+        await fs.promises.rm(this.getConversationPath(id), { force: true });
+        await this.saveIndex();
+        return result;
+      } catch (error) {
+        log.error(`Failed to delete conversation ${id}: ${error}`);
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Load the conversation index, rebuilding it from the stored files if it is missing
+   */
+  private async loadIndex(): Promise<void> {
+    const indexPath = path.join(this.storageDir, 'index.json');
+    try {
+      const summaries = JSON.parse(await fs.promises.readFile(indexPath, 'utf8')) as ConversationSummary[];
+      summaries.forEach(summary => this.index.set(summary.id, summary));
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log.warn(`Conversation index is corrupted, rebuilding: ${error}`);
+      }
+    }
+
+    for (const conversation of await this.readAllConversations()) {
+      this.index.set(conversation.id, this.summarize(conversation));
+    }
+    await this.enqueueWrite(() => this.saveIndex());
+  }
+
+  /**
+   * Get the message contents of every conversation for searching, reading the files only once
+   */
+  private async loadSearchText(): Promise<Map<string, string>> {
+    if (this.searchText) {
+      return this.searchText;
+    }
+    this.searchTextLoading ??= this.readAllConversations().then(conversations => {
+      const searchText = new Map(conversations.map(conversation => [conversation.id, this.getSearchText(conversation)]));
+      // Conversations saved while the files were read are more recent than the files
+      this.searchText?.forEach((text, id) => searchText.set(id, text));
+      this.searchText = searchText;
+      return searchText;
+    });
+    return this.searchTextLoading;
+  }
+
+  private async readAllConversations(): Promise<Conversation[]> {
+    const conversations: Conversation[] = [];
+    for (const file of await fs.promises.readdir(this.storageDir)) {
+      if (!file.endsWith('.json') || file === 'index.json') {
+        continue;
+      }
+      try {
+        conversations.push(await this.readConversation(path.join(this.storageDir, file)));
+      } catch (error) {
+        log.warn(`Skipping unreadable conversation file ${file}: ${error}`);
+      }
+    }
+    return conversations;
+  }
+
+  private async readConversation(conversationPath: string): Promise<Conversation> {
+    const conversation = JSON.parse(await fs.promises.readFile(conversationPath, 'utf8')) as Conversation;
+    // Conversations saved before titleSet existed only kept the default title until they had one
+    conversation.titleSet ??= conversation.title !== DEFAULT_TITLE;
+    return conversation;
+  }
+
+  /**
+   * Save the conversation index to disk; only called from the write queue
+   */
+  private async saveIndex(): Promise<void> {
+    try {
+      const indexPath = path.join(this.storageDir, 'index.json');
+      await fs.promises.writeFile(indexPath, JSON.stringify(Array.from(this.index.values())), 'utf8');
+    } catch (error) {
+      log.error(`Failed to save conversation index: ${error}`);
+    }
+  }
+
+  /**
+   * Run a write after the writes queued before it
+   */
+  private enqueueWrite<T>(write: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(write);
+    this.writeQueue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  private getSearchText(conversation: Conversation): string {
+    return conversation.messages.map(message => message.content.toLowerCase()).join('\n');
+  }
+
+  private summarize(conversation: Conversation): ConversationSummary {
+    return {
+      id: conversation.id,
+      title: conversation.title,
+      createdAt: conversation.createdAt,
+      updatedAt: conversation.updatedAt,
+      messageCount: conversation.messages.length
+    };
+  }
+
+  private getConversationPath(id: string): string {
+    // IDs are UUIDs, but never let them escape the storage directory
+    return path.join(this.storageDir, `${path.basename(id)}.json`);
+  }
+
+  /**
+   * Get a stable key for the current workspace so each workspace has its own history
+   */
+  private getWorkspaceKey(): string {
+    const folders = vscode.workspace.workspaceFolders;
+    if (!folders || folders.length === 0) {
+      return 'no-workspace';
+    }
+    const hash = crypto.createHash('sha256');
+    hash.update(folders.map(folder => folder.uri.toString()).join('|'));
+    return hash.digest('hex').substring(0, 16);
+  }
+}
@@ -3,6 +3,12 @@ import * as path from 'path';
 import * as fs from 'fs';
 import * as crypto from 'crypto';
 import { log } from '../utils/logging';
+import { EmbeddingProvider, cosineSimilarity } from './embeddingProvider';
+import { BM25Index } from './bm25Index';
+import { ChunkStore } from './chunkStore';
+
+// Reciprocal-rank fusion constant; dampens the advantage of the very top ranks
+const RRF_K = 60;
 
 /**
  * Interface for a code chunk that will be stored in the vector database
@@ -15,6 +21,7 @@ export interface CodeChunk {
   chunkType: 'function' | 'class' | 'method' | 'import' | 'other';
   metadata?: Record<string, any>;
   embedding?: number[];
+  embeddingModel?: string;
   lastUpdated: number;
 }
 
@@ -23,7 +30,10 @@ export interface CodeChunk {
  */
 export interface SearchOptions {
   limit?: number;
+  /** Minimum cosine similarity for a chunk to count as a semantic match */
   threshold?: number;
+  /** Restrict results to a language, using the store's language index */
+  language?: string;
   filter?: (chunk: CodeChunk) => boolean;
 }
 
@@ -36,16 +46,27 @@ export interface SearchResult {
 }
 
 /**
- * Simple in-memory vector storage implementation
- * This is a placeholder that will be replaced with a proper SQLite implementation
+ * Vector storage backed by an on-disk chunk log with per-file and per-language indexes.
+ * Only chunk metadata, embeddings and the keyword index are kept in memory.
+ * Search combines BM25 keyword ranking with the embeddings computed by the code indexer
  */
 export class VectorStorage {
   private storageDir: string;
-  private inMemoryIndex: Map<string, CodeChunk> = new Map();
+  private store: ChunkStore;
+  private keywordIndex: BM25Index = new BM25Index();
   private initialized: boolean = false;
+  private embeddingProvider: EmbeddingProvider | undefined;
 
   constructor(private context: vscode.ExtensionContext) {
     this.storageDir = path.join(context.globalStorageUri.fsPath, 'vectors');
+    this.store = new ChunkStore(path.join(this.storageDir, 'chunks.log'));
+  }
+
+  /**
+   * Set the provider used to embed search queries (undefined disables semantic search)
+   */
+  setEmbeddingProvider(provider: EmbeddingProvider | undefined): void {
+    this.embeddingProvider = provider;
   }
 
   /**
@@ -57,8 +78,16 @@ export class VectorStorage {
         fs.mkdirSync(this.storageDir, { recursive: true });
       }
       
-      // Load any existing data
-      await this.loadFromDisk();
+      // Replay the log, rebuilding the keyword index as we go
+      this.store.open(record => {
+        if (record.op === 'put') {
+          this.keywordIndex.add(record.chunk.id, record.chunk.content);
+        } else {
+          this.keywordIndex.remove(record.id);
+        }
+      });
+      
+      this.migrateLegacyIndex();
       
       this.initialized = true;
       log.info('Vector storage initialized');
@@ -69,40 +98,27 @@ export class VectorStorage {
   }
 
   /**
-   * Load stored vectors from disk
+   * Import chunks from the JSON file used by earlier versions, then remove it
    */
-  private async loadFromDisk(): Promise<void> {
-    try {
-      const indexPath = path.join(this.storageDir, 'index.json');
-      
-      if (fs.existsSync(indexPath)) {
-        const data = fs.readFileSync(indexPath, 'utf8');
-        const chunks = JSON.parse(data) as CodeChunk[];
-        
-        chunks.forEach(chunk => {
-          this.inMemoryIndex.set(chunk.id, chunk);
-        });
-        
-        log.info(`Loaded ${chunks.length} code chunks from disk`);
-      }
-    } catch (error) {
-      log.error(`Failed to load vectors from disk: ${error}`);
+  private migrateLegacyIndex(): void {
+    const legacyPath = path.join(this.storageDir, 'index.json');
+    if (!fs.existsSync(legacyPath)) {
+      return;
     }
-  }
-  
-  /**
-   * Save vectors to disk
-   */
-  private async saveToDisk(): Promise<void> {
+    
     try {
-      const indexPath = path.join(this.storageDir, 'index.json');
-      const chunks = Array.from(this.inMemoryIndex.values());
-      
-      fs.writeFileSync(indexPath, JSON.stringify(chunks, null, 2), 'utf8');
-      log.info(`Saved ${chunks.length} code chunks to disk`);
+      const chunks = JSON.parse(fs.readFileSync(legacyPath, 'utf8')) as CodeChunk[];
+      chunks.forEach(chunk => {
+        this.store.put(chunk);
+        this.keywordIndex.add(chunk.id, chunk.content);
+      });
+      this.store.flush();
+      log.info(`Migrated ${chunks.length} code chunks from the legacy index`);
     } catch (error) {
-      log.error(`Failed to save vectors to disk: ${error}`);
+      log.warn(`Discarding unreadable legacy index: ${error}`);
     }
+    
+    fs.rmSync(legacyPath, { force: true });
   }
 
   /**
@@ -121,13 +137,9 @@ export class VectorStorage {
     // Update last updated timestamp
     chunk.lastUpdated = Date.now();
     
-    // Store the chunk
-    this.inMemoryIndex.set(chunk.id, chunk);
-    
-    // Periodically save to disk
-    if (this.inMemoryIndex.size % 10 === 0) {
-      await this.saveToDisk();
-    }
+    // Store the chunk; the write is batched by the store
+    this.store.put(chunk);
+    this.keywordIndex.add(chunk.id, chunk.content);
   }
 
   /**
@@ -147,13 +159,8 @@ export class VectorStorage {
       await this.initialize();
     }
     
-    const result = this.inMemoryIndex.delete(id);
-    
-    if (result) {
-      await this.saveToDisk();
-    }
-    
-    return result;
+    this.keywordIndex.remove(id);
+    return this.store.delete(id);
   }
 
   /**
@@ -164,7 +171,7 @@ export class VectorStorage {
       await this.initialize();
     }
     
-    return this.inMemoryIndex.get(id);
+    return this.store.get(id);
   }
 
   /**
@@ -175,7 +182,7 @@ export class VectorStorage {
       await this.initialize();
     }
     
-    const chunk = this.inMemoryIndex.get(id);
+    const chunk = this.store.get(id);
     
     if (!chunk) {
       return false;
@@ -188,15 +195,18 @@ export class VectorStorage {
     chunk.lastUpdated = Date.now();
     
     // Save changes
-    this.inMemoryIndex.set(id, chunk);
-    await this.saveToDisk();
+    this.store.put(chunk);
+    if (updates.content !== undefined) {
+      this.keywordIndex.add(id, chunk.content);
+    }
     
     return true;
   }
 
   /**
-   * Search for code chunks (simple keyword search for now)
-   * This will be replaced with actual vector similarity search later
+   * Search for code chunks using hybrid ranking: BM25 keyword scores are fused with
+   * embedding similarity (when available) via reciprocal-rank fusion.
+   * Scores are normalized so that a chunk ranked first by every ranker scores 1.
    */
   async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
     if (!this.initialized) {
@@ -204,45 +214,91 @@ export class VectorStorage {
     }
     
     const limit = options.limit || 5;
-    const threshold = options.threshold || 0.5;
+    const rankings: string[][] = [this.keywordRanking(query, options)];
     
-    // Split query into keywords
-    const keywords = query.toLowerCase().split(/\s+/).filter(k => k.length > 2);
+    if (this.embeddingProvider) {
+      try {
+        const [queryEmbedding] = await this.embeddingProvider.embed([query]);
+        rankings.push(this.vectorRanking(queryEmbedding, this.embeddingProvider.key, options));
+      } catch (error) {
+        log.warn(`Embedding search failed, using keyword ranking only: ${error}`);
+      }
+    }
     
-    if (keywords.length === 0) {
+    const activeRankings = rankings.filter(ranking => ranking.length > 0);
+    if (activeRankings.length === 0) {
       return [];
     }
     
-    // Simple keyword scoring for now
+    // Reciprocal-rank fusion only looks at positions, so BM25 and cosine scores
+    // don't need to be on the same scale
+    const fusedScores = new Map<string, number>();
+    for (const ranking of activeRankings) {
+      ranking.forEach((id, index) => {
+        fusedScores.set(id, (fusedScores.get(id) || 0) + 1 / (RRF_K + index + 1));
+      });
+    }
+    
+    // Only read content for the best candidates, applying the filter as we go
+    const maxScore = activeRankings.length / (RRF_K + 1);
+    const ranked = Array.from(fusedScores.entries()).sort((a, b) => b[1] - a[1]);
     const results: SearchResult[] = [];
+    for (const [id, score] of ranked) {
+      if (results.length >= limit) {
+        break;
+      }
+      const chunk = this.store.get(id);
+      if (chunk && (!options.filter || options.filter(chunk))) {
+        results.push({ chunk, score: score / maxScore });
+      }
+    }
+    
+    return results;
+  }
+  
+  /**
+   * Rank chunks by BM25 score for the query
+   * @returns Chunk IDs, best match first
+   */
+  private keywordRanking(query: string, options: SearchOptions): string[] {
+    const scores = this.keywordIndex.search(query);
+    
+    return Array.from(scores.entries())
+      .filter(([id]) => {
+        const entry = this.store.getEntry(id);
+        return entry !== undefined && (options.language === undefined || entry.language === options.language);
+      })
+      .sort((a, b) => b[1] - a[1])
+      .map(([id]) => id);
+  }
+  
+  /**
+   * Rank chunks by cosine similarity to the query embedding
+   * @returns Chunk IDs above the similarity threshold, best match first
+   */
+  private vectorRanking(
+    queryEmbedding: number[],
+    embeddingModel: string,
+    options: SearchOptions
+  ): string[] {
+    const threshold = options.threshold ?? 0.5;
+    const results: { id: string; score: number }[] = [];
     
-    for (const chunk of this.inMemoryIndex.values()) {
-      // Skip if filter is provided and chunk doesn't match
-      if (options.filter && !options.filter(chunk)) {
+    for (const entry of this.store.getEntries(options.language)) {
+      // Embeddings from a different model live in a different vector space
+      if (!entry.embedding || entry.embeddingModel !== embeddingModel) {
         continue;
       }
       
-      // Calculate a simple relevance score
-      const lowerContent = chunk.content.toLowerCase();
-      let score = 0;
-      
-      for (const keyword of keywords) {
-        const count = (lowerContent.match(new RegExp(keyword, 'g')) || []).length;
-        score += count * (keyword.length / 10); // Weight longer keywords more heavily
-      }
-      
-      // Normalize score
-      score = Math.min(score / (lowerContent.length / 100), 1);
-      
+      const score = cosineSimilarity(queryEmbedding, entry.embedding);
       if (score >= threshold) {
-        results.push({ chunk, score });
+        results.push({ id: entry.id, score });
       }
     }
     
-    // Sort by score and limit results
     return results
       .sort((a, b) => b.score - a.score)
-      .slice(0, limit);
+      .map(result => result.id);
   }
   
   /**
@@ -255,8 +311,9 @@ export class VectorStorage {
     
     const normalizedPath = vscode.workspace.asRelativePath(filePath);
     
-    return Array.from(this.inMemoryIndex.values())
-      .filter(chunk => chunk.filePath === normalizedPath);
+    return this.store.getIdsForFile(normalizedPath)
+      .map(id => this.store.get(id))
+      .filter((chunk): chunk is CodeChunk => chunk !== undefined);
   }
   
   /**
@@ -268,20 +325,14 @@ export class VectorStorage {
     }
     
     const normalizedPath = vscode.workspace.asRelativePath(filePath);
-    let count = 0;
-    
-    for (const [id, chunk] of this.inMemoryIndex.entries()) {
-      if (chunk.filePath === normalizedPath) {
-        this.inMemoryIndex.delete(id);
-        count++;
-      }
-    }
+    const ids = this.store.getIdsForFile(normalizedPath);
     
-    if (count > 0) {
-      await this.saveToDisk();
+    for (const id of ids) {
+      this.store.delete(id);
+      this.keywordIndex.remove(id);
     }
     
-    return count;
+    return ids.length;
   }
   
   /**
@@ -292,15 +343,24 @@ export class VectorStorage {
       await this.initialize();
     }
     
-    return this.inMemoryIndex.size;
+    return this.store.size;
   }
   
   /**
    * Clear all data
    */
   async clear(): Promise<void> {
-    this.inMemoryIndex.clear();
-    await this.saveToDisk();
+    this.store.clear();
+    this.keywordIndex.clear();
     log.info('Vector storage cleared');
   }
-}
\ No newline at end of file
+
+  /**
+   * Write any pending changes to disk
+   */
+  dispose(): void {
+    if (this.initialized) {
+      this.store.dispose();
+    }
+  }
+}
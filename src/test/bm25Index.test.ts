@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import { BM25Index } from '../storage/bm25Index';
+
+suite('BM25Index', () => {
+  let index: BM25Index;
+
+  setup(() => {
+    index = new BM25Index();
+  });
+
+  test('scores a term by its inverse document frequency', () => {
+    index.add('a', 'alpha beta');
+    index.add('b', 'beta gamma');
+
+    // One of two documents of average length contain "alpha": idf = ln(1 + 1.5 / 1.5)
+    const scores = index.search('alpha');
+    assert.deepStrictEqual(Array.from(scores.keys()), ['a']);
+    assert.ok(Math.abs(scores.get('a')! - Math.log(2)) < 1e-9);
+
+    // A term in every document still scores, but less than a rare one
+    assert.ok(index.search('beta').get('a')! < scores.get('a')!);
+  });
+
+  test('ranks repeated terms higher with diminishing returns', () => {
+    index.add('once', 'token filler filler filler');
+    index.add('twice', 'token token filler filler');
+    index.add('four', 'token token token token');
+    index.add('other', 'unrelated words here now');
+
+    const scores = index.search('token');
+    const once = scores.get('once')!;
+    const twice = scores.get('twice')!;
+    const four = scores.get('four')!;
+    assert.ok(once < twice && twice < four);
+    // Two more occurrences add less than the second one did
+    assert.ok(four - twice < twice - once);
+    assert.strictEqual(scores.has('other'), false);
+  });
+
+  test('favors the shorter document for the same term frequency', () => {
+    index.add('short', 'render view');
+    index.add('long', 'render the main view with all of its child components');
+
+    const scores = index.search('render');
+    assert.ok(scores.get('short')! > scores.get('long')!);
+  });
+
+  test('sums the scores of query terms and matches identifier parts', () => {
+    index.add('both', 'function parseJsonFile(path) {}');
+    index.add('one', 'function readFile(path) {}');
+
+    const scores = index.search('parse file');
+    assert.ok(scores.get('both')! > scores.get('one')!);
+    // The whole identifier is a token too, so an exact match scores higher
+    assert.ok(index.search('parseJsonFile').get('both')! > index.search('parse json file').get('both')!);
+  });
+
+  test('replaces and removes documents', () => {
+    index.add('a', 'alpha');
+    index.add('b', 'beta');
+    index.add('a', 'gamma');
+
+    assert.strictEqual(index.search('alpha').size, 0);
+    assert.deepStrictEqual(Array.from(index.search('gamma').keys()), ['a']);
+
+    index.remove('a');
+    assert.strictEqual(index.search('gamma').size, 0);
+    assert.deepStrictEqual(Array.from(index.search('beta').keys()), ['b']);
+
+    index.clear();
+    assert.strictEqual(index.search('beta').size, 0);
+  });
+});
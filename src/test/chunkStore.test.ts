@@ -0,0 +1,150 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChunkStore, SCHEMA_VERSION } from '../storage/chunkStore';
+import { CodeChunk } from '../storage/vectorStorage';
+
+function createChunk(id: string, content: string = `function ${id}() {}`): CodeChunk {
+  return {
+    id,
+    content,
+    filePath: `src/${id}.ts`,
+    language: 'typescript',
+    chunkType: 'function',
+    embedding: [0.5, -0.25],
+    embeddingModel: 'hash:2',
+    lastUpdated: 1
+  };
+}
+
+function readLines(logPath: string): string[] {
+  return fs.readFileSync(logPath, 'utf8').split('\n').filter(line => line !== '');
+}
+
+suite('ChunkStore', () => {
+  let tempDir: string;
+  let logPath: string;
+  let store: ChunkStore;
+
+  setup(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'logcai-chunks-'));
+    logPath = path.join(tempDir, 'vectors', 'chunks.log');
+    store = new ChunkStore(logPath);
+    store.open();
+  });
+
+  teardown(() => {
+    store.dispose();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function reopen(): ChunkStore {
+    store.dispose();
+    store = new ChunkStore(logPath);
+    store.open();
+    return store;
+  }
+
+  test('starts a new log with a schema header', () => {
+    const lines = readLines(logPath);
+    assert.strictEqual(lines.length, 1);
+    assert.strictEqual(JSON.parse(lines[0]).schemaVersion, SCHEMA_VERSION);
+  });
+
+  test('replays puts and deletes when reopened', () => {
+    store.put(createChunk('a'));
+    store.put(createChunk('b'));
+    store.put(createChunk('a', 'function a() { return 1; }'));
+    store.delete('b');
+    store.flush();
+
+    reopen();
+    assert.strictEqual(store.size, 1);
+    assert.strictEqual(store.get('a')?.content, 'function a() { return 1; }');
+    assert.deepStrictEqual(Array.from(store.getEntry('a')!.embedding!), [0.5, -0.25]);
+    assert.strictEqual(store.get('b'), undefined);
+    assert.deepStrictEqual(store.getIdsForFile('src/a.ts'), ['a']);
+    assert.deepStrictEqual(store.getIdsForFile('src/b.ts'), []);
+  });
+
+  test('discards a log written with another schema version', () => {
+    store.put(createChunk('a'));
+    store.flush();
+    const lines = readLines(logPath);
+    lines[0] = JSON.stringify({ schemaVersion: SCHEMA_VERSION + 1, createdAt: 0 });
+    fs.writeFileSync(logPath, lines.map(line => `${line}\n`).join(''));
+
+    reopen();
+    assert.strictEqual(store.size, 0);
+    const reset = readLines(logPath);
+    assert.strictEqual(reset.length, 1);
+    assert.strictEqual(JSON.parse(reset[0]).schemaVersion, SCHEMA_VERSION);
+  });
+
+  test('truncates a torn last line and keeps appending after it', () => {
+    store.put(createChunk('a'));
+    store.flush();
+    const validSize = fs.statSync(logPath).size;
+    // A crash in the middle of an append leaves a line without its newline
+    fs.appendFileSync(logPath, '{"op":"put","chunk":{"id":"torn","cont');
+
+    reopen();
+    assert.strictEqual(store.size, 1);
+    assert.strictEqual(fs.statSync(logPath).size, validSize);
+
+    store.put(createChunk('b'));
+    store.flush();
+    reopen();
+    assert.strictEqual(store.get('a')?.content, 'function a() {}');
+    assert.strictEqual(store.get('b')?.content, 'function b() {}');
+  });
+
+  test('skips a corrupted record in the middle of the log', () => {
+    store.put(createChunk('a'));
+    store.flush();
+    fs.appendFileSync(logPath, 'not json\n');
+    reopen();
+    store.put(createChunk('b'));
+    store.flush();
+
+    reopen();
+    assert.deepStrictEqual([store.get('a')?.id, store.get('b')?.id], ['a', 'b']);
+  });
+
+  test('compaction keeps only the live records', () => {
+    for (let version = 0; version < 5; version++) {
+      store.put(createChunk('a', `function a() { return ${version}; }`));
+    }
+    store.put(createChunk('b'));
+    store.put(createChunk('c'));
+    store.delete('c');
+    store.flush();
+    const sizeBefore = fs.statSync(logPath).size;
+
+    store.compact();
+    const lines = readLines(logPath);
+    assert.strictEqual(lines.length, 3);
+    assert.strictEqual(JSON.parse(lines[0]).schemaVersion, SCHEMA_VERSION);
+    assert.ok(fs.statSync(logPath).size < sizeBefore);
+    assert.strictEqual(fs.existsSync(`${logPath}.tmp`), false);
+    // The entries point at the records' new locations
+    assert.strictEqual(store.get('a')?.content, 'function a() { return 4; }');
+    assert.strictEqual(store.get('b')?.content, 'function b() {}');
+
+    reopen();
+    assert.strictEqual(store.size, 2);
+    assert.strictEqual(store.get('a')?.content, 'function a() { return 4; }');
+  });
+
+  test('compacts automatically once most of a large log is superseded', () => {
+    const content = 'x'.repeat(400 * 1024);
+    for (let version = 0; version < 3; version++) {
+      store.put(createChunk('a', content + version));
+    }
+    store.flush();
+
+    assert.strictEqual(readLines(logPath).length, 2);
+    assert.strictEqual(store.get('a')?.content, content + 2);
+  });
+});
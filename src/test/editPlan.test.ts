@@ -0,0 +1,151 @@
+import * as assert from 'assert';
+import { applyHunk, applyHunks, containsEditMarkers, parseEditPlan } from '../utils/editPlan';
+
+suite('parseEditPlan', () => {
+  test('reads SEARCH/REPLACE blocks with the path above the fence or in its header', () => {
+    const response = [
+      'Rename the helper:',
+      '',
+      'src/utils/math.ts',
+      '```typescript',
+      '<<<<<<< SEARCH',
+      'export function add(a, b) {',
+      '=======',
+      'export function sum(a, b) {',
+      '>>>>>>> REPLACE',
+      '```',
+      '',
+      '```ts src/index.ts',
+      '<<<<<<< SEARCH',
+      "import { add } from './utils/math';",
+      '=======',
+      "import { sum } from './utils/math';",
+      '>>>>>>> REPLACE',
+      '<<<<<<< SEARCH',
+      'add(1, 2);',
+      '=======',
+      'sum(1, 2);',
+      '>>>>>>> REPLACE',
+      '```'
+    ].join('\n');
+
+    assert.deepStrictEqual(parseEditPlan(response), [
+      {
+        filePath: 'src/utils/math.ts',
+        isNew: false,
+        hunks: [{ search: 'export function add(a, b) {', replace: 'export function sum(a, b) {' }]
+      },
+      {
+        filePath: 'src/index.ts',
+        isNew: false,
+        hunks: [
+          { search: "import { add } from './utils/math';", replace: "import { sum } from './utils/math';" },
+          { search: 'add(1, 2);', replace: 'sum(1, 2);' }
+        ]
+      }
+    ]);
+  });
+
+  test('treats an empty SEARCH section as a new file', () => {
+    const response = '### File: README.md\n<<<<<<< SEARCH\n=======\n# Title\n>>>>>>> REPLACE';
+    assert.deepStrictEqual(parseEditPlan(response), [
+      { filePath: 'README.md', isNew: true, hunks: [{ search: '', replace: '# Title' }] }
+    ]);
+  });
+
+  test('ignores blocks without a path and unterminated blocks', () => {
+    assert.deepStrictEqual(parseEditPlan('Some text\n<<<<<<< SEARCH\na\n=======\nb\n>>>>>>> REPLACE'), []);
+    assert.deepStrictEqual(parseEditPlan('src/a.ts\n<<<<<<< SEARCH\na\n=======\nb'), []);
+  });
+
+  test('reads unified diffs, including context lines without their space', () => {
+    const response = [
+      '```diff',
+      '--- a/src/app.ts',
+      '+++ b/src/app.ts',
+      '@@ -1,4 +1,4 @@',
+      ' const a = 1;',
+      '',
+      '-const b = 2;',
+      '+const b = 3;',
+      ' const c = 4;',
+      '--- /dev/null',
+      '+++ b/src/new.ts',
+      '@@ -0,0 +1 @@',
+      '+export const created = true;',
+      '\\ No newline at end of file',
+      '--- a/src/old.ts',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-export const removed = true;',
+      '```'
+    ].join('\n');
+
+    assert.deepStrictEqual(parseEditPlan(response), [
+      {
+        filePath: 'src/app.ts',
+        isNew: false,
+        hunks: [{
+          search: 'const a = 1;\n\nconst b = 2;\nconst c = 4;',
+          replace: 'const a = 1;\n\nconst b = 3;\nconst c = 4;'
+        }]
+      },
+      { filePath: 'src/new.ts', isNew: true, hunks: [{ search: '', replace: 'export const created = true;' }] }
+    ]);
+  });
+});
+
+suite('applyHunk', () => {
+  const content = 'function greet(name) {\n  return "Hello " + name;\n}\n';
+
+  test('replaces the first exact match', () => {
+    assert.strictEqual(
+      applyHunk(content + content, { search: '"Hello "', replace: '"Hi "' }),
+      content.replace('"Hello "', '"Hi "') + content
+    );
+  });
+
+  test('appends to the file for an empty search', () => {
+    assert.strictEqual(applyHunk('', { search: '', replace: 'first' }), 'first');
+    assert.strictEqual(applyHunk('a', { search: '\n', replace: 'b' }), 'a\nb');
+    assert.strictEqual(applyHunk('a\n', { search: '', replace: 'b' }), 'a\nb');
+  });
+
+  test('falls back to ignoring trailing whitespace on each line', () => {
+    const withTrailingSpaces = 'function greet(name) {  \n  return "Hello " + name;\t\n}\n';
+    const hunk = {
+      search: 'function greet(name) {\n  return "Hello " + name;\n',
+      replace: 'function greet(name) {\n  return `Hello ${name}`;\n'
+    };
+    assert.strictEqual(applyHunk(withTrailingSpaces, hunk), 'function greet(name) {\n  return `Hello ${name}`;\n}\n');
+  });
+
+  test('deletes the matched lines for an empty replacement in the fallback', () => {
+    const hunk = { search: '  return "Hello " + name; \n', replace: '' };
+    assert.strictEqual(applyHunk(content, hunk), 'function greet(name) {\n}\n');
+  });
+
+  test('returns undefined when the search text is not found', () => {
+    // Leading whitespace still has to match
+    assert.strictEqual(applyHunk(content, { search: '    return "Hello " + name;', replace: '' }), undefined);
+    assert.strictEqual(applyHunk(content, { search: 'goodbye', replace: '' }), undefined);
+  });
+
+  test('applies hunks in order and keeps CRLF line endings', () => {
+    const result = applyHunks(content.replace(/\n/g, '\r\n'), [
+      { search: 'greet', replace: 'welcome' },
+      { search: 'missing', replace: '' },
+      { search: '"Hello "', replace: '"Welcome "' }
+    ]);
+    assert.strictEqual(result.content, 'function welcome(name) {\r\n  return "Welcome " + name;\r\n}\r\n');
+    assert.deepStrictEqual(result.failed, [1]);
+  });
+});
+
+suite('containsEditMarkers', () => {
+  test('detects SEARCH markers and diff headers but not plain code', () => {
+    assert.strictEqual(containsEditMarkers('<<<<<<< SEARCH\na\n=======\nb\n>>>>>>> REPLACE'), true);
+    assert.strictEqual(containsEditMarkers('--- a/x.ts\n+++ b/x.ts\n@@ -1 +1 @@\n-a\n+b'), true);
+    assert.strictEqual(containsEditMarkers('let x = 1;\n--- not a header'), false);
+  });
+});
@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import { LRUCache } from '../utils/lruCache';
+
+suite('LRUCache', () => {
+  const realNow = Date.now;
+  let now: number;
+
+  setup(() => {
+    now = 1000;
+    Date.now = () => now;
+  });
+
+  teardown(() => {
+    Date.now = realNow;
+  });
+
+  test('evicts the least recently set entry when full', () => {
+    const cache = new LRUCache<string, number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.set('c', 3);
+
+    assert.strictEqual(cache.size, 2);
+    assert.strictEqual(cache.get('a'), undefined);
+    assert.strictEqual(cache.get('b'), 2);
+    assert.strictEqual(cache.get('c'), 3);
+  });
+
+  test('reading or replacing an entry makes it the most recently used', () => {
+    const cache = new LRUCache<string, number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+    assert.deepStrictEqual([cache.get('a'), cache.get('b'), cache.get('c')], [1, undefined, 3]);
+
+    cache.set('a', 10);
+    cache.set('d', 4);
+    assert.deepStrictEqual([cache.get('a'), cache.get('c'), cache.get('d')], [10, undefined, 4]);
+  });
+
+  test('expires entries after their time-to-live', () => {
+    const cache = new LRUCache<string, number>(10, 100);
+    cache.set('a', 1);
+    now += 50;
+    cache.set('b', 2);
+
+    now += 49;
+    assert.strictEqual(cache.get('a'), 1);
+    now += 1;
+    assert.strictEqual(cache.get('a'), undefined);
+    assert.strictEqual(cache.size, 1);
+    assert.strictEqual(cache.get('b'), 2);
+
+    // Reading an entry doesn't extend its lifetime, setting it again does
+    now += 49;
+    cache.set('b', 3);
+    now += 99;
+    assert.strictEqual(cache.get('b'), 3);
+  });
+
+  test('keeps entries without a time-to-live and applies a new one to later entries only', () => {
+    const cache = new LRUCache<string, number>(10);
+    cache.set('a', 1);
+    cache.setTTL(100);
+    cache.set('b', 2);
+
+    now += 1000;
+    assert.strictEqual(cache.get('a'), 1);
+    assert.strictEqual(cache.get('b'), undefined);
+
+    cache.clear();
+    assert.strictEqual(cache.size, 0);
+  });
+});
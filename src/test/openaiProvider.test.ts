@@ -0,0 +1,198 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as vscode from 'vscode';
+import { OpenAIProvider } from '../models/providers/openaiProvider';
+import { ConfigurationManager } from '../config/configuration';
+import { DEFAULT_SETTINGS, ERROR_MESSAGES } from '../config/constants';
+
+const API_KEY = 'sk-test';
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  authorization?: string;
+  body: any;
+}
+
+/**
+ * Local server that answers like the OpenAI API. The model name in the request
+ * picks a failure: "missing" gives 404, "busy" 429, "invalid" 400, "broken"
+ * an error event after the first chunk of the stream and "slow" answers after a second.
+ */
+function startServer(requests: RecordedRequest[]): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const body = raw ? JSON.parse(raw) : undefined;
+      requests.push({ method: req.method, url: req.url, authorization: req.headers.authorization, body });
+
+      const sendJson = (status: number, data: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(data));
+      };
+
+      if (req.headers.authorization !== `Bearer ${API_KEY}`) {
+        sendJson(401, { error: { message: 'Incorrect API key provided' } });
+      } else if (req.method === 'GET' && req.url === '/v1/models') {
+        sendJson(200, { object: 'list', data: [{ id: 'test-model' }] });
+      } else if (req.method !== 'POST' || req.url !== '/v1/chat/completions') {
+        sendJson(404, { error: { message: 'Not found' } });
+      } else if (body.model === 'missing') {
+        sendJson(404, { error: { message: 'The model does not exist' } });
+      } else if (body.model === 'busy') {
+        sendJson(429, { error: { message: 'Rate limit reached' } });
+      } else if (body.model === 'invalid') {
+        sendJson(400, { error: { message: 'max_tokens is too large' } });
+      } else if (body.model === 'slow') {
+        setTimeout(() => sendJson(200, { choices: [{ message: { role: 'assistant', content: 'Too late' } }] }), 1000);
+      } else if (!body.stream) {
+        sendJson(200, { choices: [{ message: { role: 'assistant', content: 'Hello world' } }] });
+      } else {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        const events = body.model === 'broken'
+          ? ['{"choices":[{"delta":{"content":"Hel"}}]}', '{"error":{"message":"The server had an error"}}']
+          : [
+            '{"choices":[{"delta":{"role":"assistant"}}]}',
+            '{"choices":[{"delta":{"content":"Hel"}}]}',
+            '{"choices":[{"delta":{"content":"lo wörld"}}]}',
+            '{"choices":[{"delta":{},"finish_reason":"stop"}]}',
+            '[DONE]'
+          ];
+        // Split the stream in the middle of an event, as a proxy might
+        const stream = Buffer.from(events.map(data => `data: ${data}\n\n`).join(''));
+        const middle = Math.floor(stream.length / 2);
+        res.write(stream.subarray(0, middle));
+        setTimeout(() => res.end(stream.subarray(middle)), 10);
+      }
+    });
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+function createConfigManager(baseUrl: string, apiKey: string): ConfigurationManager {
+  const config = { ...DEFAULT_SETTINGS, openaiBaseUrl: baseUrl, openaiModel: 'test-model', temperature: 0.2, maxTokens: 64 };
+  return {
+    getConfiguration: () => config,
+    getOpenAIApiKey: async () => apiKey
+  } as unknown as ConfigurationManager;
+}
+
+suite('OpenAIProvider', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[];
+
+  suiteSetup(async () => {
+    requests = [];
+    server = await startServer(requests);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+  });
+
+  suiteTeardown(done => {
+    server.close(done);
+  });
+
+  setup(() => {
+    requests.length = 0;
+  });
+
+  test('checks availability with the models endpoint', async () => {
+    const provider = new OpenAIProvider(createConfigManager(baseUrl, API_KEY));
+    assert.strictEqual(await provider.isAvailable(), true);
+    assert.deepStrictEqual(
+      requests.map(r => [r.method, r.url, r.authorization]),
+      [['GET', '/v1/models', `Bearer ${API_KEY}`]]
+    );
+
+    const unauthorized = new OpenAIProvider(createConfigManager(baseUrl, 'sk-wrong'));
+    assert.strictEqual(await unauthorized.isAvailable(), false);
+  });
+
+  test('streams a chat response', async () => {
+    const provider = new OpenAIProvider(createConfigManager(baseUrl, API_KEY));
+    const chunks: [string, boolean][] = [];
+    await provider.streamChat(
+      [
+        { role: 'system', content: 'Be brief', timestamp: 1, id: 'm1' },
+        { role: 'user', content: 'Say hello', timestamp: 2, id: 'm2' }
+      ],
+      (text, final) => chunks.push([text, final]),
+      undefined,
+      { stopSequences: ['\n\n'], silent: true }
+    );
+
+    assert.deepStrictEqual(chunks, [['Hel', false], ['lo wörld', false], ['', true]]);
+    assert.strictEqual(requests.length, 1);
+    assert.strictEqual(requests[0].method, 'POST');
+    assert.strictEqual(requests[0].url, '/v1/chat/completions');
+    assert.strictEqual(requests[0].authorization, `Bearer ${API_KEY}`);
+    assert.deepStrictEqual(requests[0].body, {
+      model: 'test-model',
+      messages: [{ role: 'system', content: 'Be brief' }, { role: 'user', content: 'Say hello' }],
+      stream: true,
+      temperature: 0.2,
+      max_tokens: 64,
+      stop: ['\n\n']
+    });
+  });
+
+  test('returns a non-streamed completion', async () => {
+    const provider = new OpenAIProvider(createConfigManager(baseUrl, API_KEY));
+    const text = await provider.getCompletion('Say hello', { maxTokens: 8, silent: true });
+
+    assert.strictEqual(text, 'Hello world');
+    assert.deepStrictEqual(requests[0].body.messages, [{ role: 'user', content: 'Say hello' }]);
+    assert.strictEqual(requests[0].body.stream, false);
+    assert.strictEqual(requests[0].body.max_tokens, 8);
+  });
+
+  test('cancels a chat request', async () => {
+    const provider = new OpenAIProvider(createConfigManager(baseUrl, API_KEY));
+    const source = new vscode.CancellationTokenSource();
+    const response = provider.chat(
+      [{ role: 'user', content: 'Say hello', timestamp: 1, id: 'm1' }],
+      { model: 'slow', silent: true },
+      source.token
+    );
+    setTimeout(() => source.cancel(), 50);
+
+    assert.strictEqual(await response, '');
+  });
+
+  test('maps a rejected API key to the API key message', async () => {
+    const provider = new OpenAIProvider(createConfigManager(baseUrl, 'sk-wrong'));
+    await assert.rejects(provider.getCompletion('Say hello', { silent: true }), { message: ERROR_MESSAGES.API_KEY_MISSING });
+    await assert.rejects(
+      provider.streamCompletion('Say hello', () => undefined, undefined, { silent: true }),
+      { message: ERROR_MESSAGES.API_KEY_MISSING }
+    );
+  });
+
+  test('maps client errors to messages', async () => {
+    const provider = new OpenAIProvider(createConfigManager(baseUrl, API_KEY));
+    await assert.rejects(
+      provider.getCompletion('Say hello', { model: 'missing', silent: true }),
+      { message: `OpenAI model "missing" not found at ${baseUrl.replace(/\/$/, '')}.` }
+    );
+    await assert.rejects(
+      provider.streamCompletion('Say hello', () => undefined, undefined, { model: 'busy', silent: true }),
+      { message: ERROR_MESSAGES.RATE_LIMITED }
+    );
+    await assert.rejects(
+      provider.getCompletion('Say hello', { model: 'invalid', silent: true }),
+      { message: 'OpenAI operation failed: max_tokens is too large' }
+    );
+  });
+
+  test('rejects on an error event mid-stream', async () => {
+    const provider = new OpenAIProvider(createConfigManager(baseUrl, API_KEY));
+    const chunks: string[] = [];
+    await assert.rejects(
+      provider.streamCompletion('Say hello', text => chunks.push(text), undefined, { model: 'broken', silent: true }),
+      { message: 'OpenAI operation failed: The server had an error' }
+    );
+    assert.deepStrictEqual(chunks, ['Hel']);
+  });
+});
@@ -0,0 +1,124 @@
+import * as assert from 'assert';
+import { ProviderHealthTracker } from '../models/providerHealth';
+
+suite('ProviderHealthTracker', () => {
+  const realSetInterval = global.setInterval;
+  const realClearInterval = global.clearInterval;
+  // The probe timer runs only when a test calls runProbes
+  let probeCallbacks: Map<number, () => void>;
+  let reachable: Set<string>;
+  let probed: string[];
+  let tracker: ProviderHealthTracker;
+
+  const runProbes = async () => {
+    for (const callback of probeCallbacks.values()) {
+      callback();
+    }
+    // Let the probes settle
+    await new Promise(resolve => setImmediate(resolve));
+  };
+
+  setup(() => {
+    probeCallbacks = new Map();
+    let nextHandle = 1;
+    global.setInterval = ((callback: () => void) => {
+      const handle = nextHandle++;
+      probeCallbacks.set(handle, callback);
+      return handle;
+    }) as unknown as typeof setInterval;
+    global.clearInterval = ((handle: number) => probeCallbacks.delete(handle)) as unknown as typeof clearInterval;
+
+    reachable = new Set();
+    probed = [];
+    tracker = new ProviderHealthTracker(async key => {
+      probed.push(key);
+      return reachable.has(key);
+    });
+  });
+
+  teardown(() => {
+    tracker.dispose();
+    global.setInterval = realSetInterval;
+    global.clearInterval = realClearInterval;
+  });
+
+  test('opens the circuit after three consecutive failures', () => {
+    let changes = 0;
+    tracker.onDidChange(() => changes++);
+
+    tracker.recordFailure('ollama', new Error('timeout'));
+    tracker.recordFailure('ollama', new Error('timeout'));
+    assert.strictEqual(tracker.isCallable('ollama'), true);
+    assert.deepStrictEqual(tracker.getHealth('ollama'), { circuit: 'closed', consecutiveFailures: 2, lastError: 'timeout' });
+    assert.strictEqual(changes, 0);
+
+    tracker.recordFailure('ollama', new Error('connection refused'));
+    const health = tracker.getHealth('ollama');
+    assert.strictEqual(tracker.isCallable('ollama'), false);
+    assert.strictEqual(health.circuit, 'open');
+    assert.strictEqual(health.consecutiveFailures, 3);
+    assert.strictEqual(health.lastError, 'connection refused');
+    assert.ok(health.openedAt);
+    assert.strictEqual(changes, 1);
+    assert.strictEqual(probeCallbacks.size, 1);
+
+    // Other providers are tracked separately
+    assert.strictEqual(tracker.isCallable('openai'), true);
+  });
+
+  test('a success resets the failure count', () => {
+    tracker.recordFailure('ollama', new Error('timeout'));
+    tracker.recordFailure('ollama', new Error('timeout'));
+    tracker.recordSuccess('ollama');
+    tracker.recordFailure('ollama', new Error('timeout'));
+    tracker.recordFailure('ollama', new Error('timeout'));
+
+    assert.strictEqual(tracker.isCallable('ollama'), true);
+    assert.strictEqual(tracker.getHealth('ollama').consecutiveFailures, 2);
+  });
+
+  test('probes open circuits until the provider recovers', async () => {
+    tracker.markUnavailable('ollama', 'not running');
+    tracker.markUnavailable('openai', 'no API key');
+    assert.strictEqual(tracker.isCallable('ollama'), false);
+    assert.strictEqual(probeCallbacks.size, 1);
+
+    await runProbes();
+    assert.deepStrictEqual(probed, ['ollama', 'openai']);
+    assert.strictEqual(tracker.isCallable('ollama'), false);
+
+    let changes = 0;
+    tracker.onDidChange(() => changes++);
+    reachable.add('ollama');
+    await runProbes();
+    assert.strictEqual(tracker.isCallable('ollama'), true);
+    assert.deepStrictEqual(tracker.getHealth('ollama'), { circuit: 'closed', consecutiveFailures: 0 });
+    assert.strictEqual(changes, 1);
+    // Still probing the provider that is down
+    assert.strictEqual(probeCallbacks.size, 1);
+
+    reachable.add('openai');
+    await runProbes();
+    assert.strictEqual(tracker.isCallable('openai'), true);
+    assert.strictEqual(probeCallbacks.size, 0);
+  });
+
+  test('a probe that throws counts as unreachable', async () => {
+    tracker.dispose();
+    tracker = new ProviderHealthTracker(async () => {
+      throw new Error('network down');
+    });
+    tracker.markUnavailable('ollama', 'not running');
+
+    await runProbes();
+    assert.strictEqual(tracker.isCallable('ollama'), false);
+  });
+
+  test('reset closes all circuits and stops probing', () => {
+    tracker.markUnavailable('ollama', 'not running');
+    tracker.reset();
+
+    assert.strictEqual(tracker.isCallable('ollama'), true);
+    assert.strictEqual(probeCallbacks.size, 0);
+  });
+});
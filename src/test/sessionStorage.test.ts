@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { SessionStorage } from '../storage/sessionStorage';
+import { Conversation } from '../models/interfaces';
+
+function createConversation(id: string, messages: string[]): Conversation {
+  return {
+    id,
+    title: 'New Conversation',
+    messages: messages.map((content, i) => ({ id: `${id}-${i}`, role: 'user', content, timestamp: i })),
+    createdAt: 1,
+    updatedAt: 1
+  };
+}
+
+suite('SessionStorage', () => {
+  let tempDir: string;
+  let context: vscode.ExtensionContext;
+  let storage: SessionStorage;
+
+  setup(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'logcai-sessions-'));
+    context = { globalStorageUri: vscode.Uri.file(tempDir) } as vscode.ExtensionContext;
+    storage = new SessionStorage(context);
+    await storage.initialize();
+  });
+
+  teardown(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('titles a conversation from its first message once', async () => {
+    const conversation = createConversation('a', ['How do I parse JSON?']);
+    await storage.saveConversation(conversation);
+    assert.strictEqual(conversation.title, 'How do I parse JSON?');
+
+    // A title reset to the placeholder is kept when more messages are saved
+    await storage.renameConversation('a', 'New Conversation');
+    const renamed = (await storage.loadConversation('a'))!;
+    renamed.messages.push({ id: 'a-1', role: 'user', content: 'And YAML?', timestamp: 2 });
+    await storage.saveConversation(renamed);
+
+    assert.strictEqual((await storage.loadConversation('a'))?.title, 'New Conversation');
+  });
+
+  test('searches titles and message contents', async () => {
+    await storage.saveConversation(createConversation('a', ['Sort an array', 'Use a stable comparator']));
+    await storage.saveConversation(createConversation('b', ['Read a file']));
+
+    assert.deepStrictEqual((await storage.listConversations('sort')).map(c => c.id), ['a']);
+    assert.deepStrictEqual((await storage.listConversations('COMPARATOR')).map(c => c.id), ['a']);
+
+    // Saved after the search text was loaded
+    await storage.saveConversation(createConversation('c', ['Parse a date', 'with a comparator']));
+    assert.deepStrictEqual((await storage.listConversations('comparator')).map(c => c.id).sort(), ['a', 'c']);
+
+    await storage.deleteConversation('a');
+    assert.deepStrictEqual((await storage.listConversations('comparator')).map(c => c.id), ['c']);
+  });
+
+  test('restores conversations and their search text after a restart', async () => {
+    await storage.saveConversation(createConversation('a', ['Explain closures']));
+
+    const restarted = new SessionStorage(context);
+    await restarted.initialize();
+    assert.deepStrictEqual((await restarted.listConversations()).map(c => c.title), ['Explain closures']);
+    assert.deepStrictEqual((await restarted.listConversations('closures')).map(c => c.id), ['a']);
+  });
+});
@@ -0,0 +1,141 @@
+import * as assert from 'assert';
+import { PassThrough, Readable } from 'stream';
+import { readNdjsonStream, readServerSentEvents, ServerSentEvent } from '../models/providers/streamDecoder';
+
+/**
+ * Split text into byte chunks at the given byte offsets, the way TCP may deliver it
+ */
+function splitBytes(text: string, ...offsets: number[]): Buffer[] {
+  const bytes = Buffer.from(text, 'utf8');
+  const bounds = [0, ...offsets, bytes.length];
+  return bounds.slice(1).map((end, i) => bytes.subarray(bounds[i], end));
+}
+
+/**
+ * Byte offset in the middle of the first occurrence of a multi-byte character
+ */
+function insideCharacter(text: string, character: string): number {
+  const index = text.indexOf(character);
+  assert.ok(index >= 0 && Buffer.byteLength(character) > 1);
+  return Buffer.byteLength(text.slice(0, index)) + 1;
+}
+
+function streamOf(chunks: Buffer[]): Readable {
+  return Readable.from(chunks);
+}
+
+async function readNdjson(chunks: Buffer[], onMessage?: (message: any) => void): Promise<any[]> {
+  const messages: any[] = [];
+  await readNdjsonStream<any>(streamOf(chunks), message => {
+    onMessage?.(message);
+    messages.push(message);
+  });
+  return messages;
+}
+
+async function readEvents(chunks: Buffer[], onEvent?: (event: ServerSentEvent) => void): Promise<ServerSentEvent[]> {
+  const events: ServerSentEvent[] = [];
+  await readServerSentEvents(streamOf(chunks), event => {
+    onEvent?.(event);
+    events.push(event);
+  });
+  return events;
+}
+
+suite('readNdjsonStream', () => {
+  test('joins a line split across chunks', async () => {
+    const text = '{"response":"Hello"}\n{"response":" world","done":true}\n';
+    const messages = await readNdjson(splitBytes(text, 5, 21, 30));
+    assert.deepStrictEqual(messages, [{ response: 'Hello' }, { response: ' world', done: true }]);
+  });
+
+  test('decodes a multi-byte character split across chunks', async () => {
+    const text = '{"response":"naïve €5 🙂"}\n';
+    const chunks = splitBytes(text, insideCharacter(text, 'ï'), insideCharacter(text, '€'), insideCharacter(text, '🙂'));
+    assert.deepStrictEqual(await readNdjson(chunks), [{ response: 'naïve €5 🙂' }]);
+  });
+
+  test('parses the last line when the stream ends without a newline', async () => {
+    const text = '{"response":"a"}\r\n{"response":"b","done":true}';
+    const messages = await readNdjson(splitBytes(text, 12));
+    assert.deepStrictEqual(messages, [{ response: 'a' }, { response: 'b', done: true }]);
+  });
+
+  test('skips blank and invalid lines', async () => {
+    const text = '{"response":"a"}\n\nnot json\n{"response":"b"}\n';
+    assert.deepStrictEqual(await readNdjson(splitBytes(text)), [{ response: 'a' }, { response: 'b' }]);
+  });
+
+  test('rejects with the error of a mid-stream error message', async () => {
+    const text = '{"response":"a"}\n{"error":"model ran out of memory"}\n{"response":"b"}\n';
+    const received: any[] = [];
+    await assert.rejects(
+      readNdjson(splitBytes(text, 20), message => {
+        if (message.error) {
+          throw new Error(message.error);
+        }
+        received.push(message);
+      }),
+      /model ran out of memory/
+    );
+    assert.deepStrictEqual(received, [{ response: 'a' }]);
+  });
+
+  test('rejects when the connection closes early', async () => {
+    const stream = new PassThrough();
+    const result = readNdjsonStream(stream, () => undefined);
+    stream.write('{"response":"a"}\n');
+    stream.destroy();
+    await assert.rejects(result, /closed before the response was complete/);
+  });
+});
+
+suite('readServerSentEvents', () => {
+  test('joins a line split across chunks', async () => {
+    const text = 'data: {"text":"Hello"}\n\ndata: {"text":" world"}\n\ndata: [DONE]\n\n';
+    const events = await readEvents(splitBytes(text, 3, 14, 25, 49));
+    assert.deepStrictEqual(events.map(e => e.data), ['{"text":"Hello"}', '{"text":" world"}', '[DONE]']);
+  });
+
+  test('decodes a multi-byte character split across chunks', async () => {
+    const text = 'event: delta\ndata: {"text":"naïve €5 🙂"}\n\n';
+    const chunks = splitBytes(text, insideCharacter(text, 'ï'), insideCharacter(text, '€'), insideCharacter(text, '🙂'));
+    assert.deepStrictEqual(await readEvents(chunks), [{ event: 'delta', data: '{"text":"naïve €5 🙂"}' }]);
+  });
+
+  test('dispatches the last event when the stream ends without a newline', async () => {
+    const text = 'data: first\r\n\r\nevent: done\ndata: last';
+    assert.deepStrictEqual(await readEvents(splitBytes(text, 8)), [
+      { event: undefined, data: 'first' },
+      { event: 'done', data: 'last' }
+    ]);
+  });
+
+  test('ignores comments and joins multi-line data', async () => {
+    const text = ': keep-alive\n\nid: 1\ndata: line one\ndata:line two\n\n';
+    assert.deepStrictEqual(await readEvents(splitBytes(text, 20)), [{ event: undefined, data: 'line one\nline two' }]);
+  });
+
+  test('rejects with the error of a mid-stream error event', async () => {
+    const text = 'event: delta\ndata: a\n\nevent: error\ndata: {"message":"overloaded"}\n\nevent: delta\ndata: b\n\n';
+    const received: string[] = [];
+    await assert.rejects(
+      readEvents(splitBytes(text, 30, 50), event => {
+        if (event.event === 'error') {
+          throw new Error(JSON.parse(event.data).message);
+        }
+        received.push(event.data);
+      }),
+      /overloaded/
+    );
+    assert.deepStrictEqual(received, ['a']);
+  });
+
+  test('rejects when the stream fails', async () => {
+    const stream = new PassThrough();
+    const result = readServerSentEvents(stream, () => undefined);
+    stream.write('data: a\n\n');
+    stream.destroy(new Error('socket hang up'));
+    await assert.rejects(result, /socket hang up/);
+  });
+});
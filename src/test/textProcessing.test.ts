@@ -0,0 +1,237 @@
+import * as assert from 'assert';
+import { CompletionMode, decideCompletionMode, getNextLine, getNextWord, postProcessCompletion } from '../utils/textProcessing';
+
+interface PostProcessCase {
+  name: string;
+  completion: string;
+  prefix: string;
+  suffix: string;
+  mode: CompletionMode;
+  expected: string;
+}
+
+suite('postProcessCompletion', () => {
+  const cases: PostProcessCase[] = [
+    {
+      name: 'takes the code from a fence without a closing fence',
+      completion: '```typescript\nreturn a + b;\n',
+      prefix: 'function add(a, b) {\n  ',
+      suffix: '\n}',
+      mode: 'single-line',
+      expected: 'return a + b;'
+    },
+    {
+      name: 'drops the prose after a closed fence',
+      completion: '```js\nconst x = 1;\n```\nThis declares x.',
+      prefix: '',
+      suffix: '',
+      mode: 'single-line',
+      expected: 'const x = 1;'
+    },
+    {
+      name: 'returns nothing for an empty fence',
+      completion: '```\n```',
+      prefix: 'foo',
+      suffix: '',
+      mode: 'single-line',
+      expected: ''
+    },
+    {
+      name: 'drops a prose lead-in',
+      completion: 'Here is the code:\nconsole.log(value);',
+      prefix: '  ',
+      suffix: '',
+      mode: 'single-line',
+      expected: 'console.log(value);'
+    },
+    {
+      name: 'drops a prose lead-in with an exclamation',
+      completion: "Sure! Here's the completion:\nreturn items.length;",
+      prefix: '  ',
+      suffix: '',
+      mode: 'single-line',
+      expected: 'return items.length;'
+    },
+    {
+      name: 'drops a restart of the current line',
+      completion: 'const total = items.length;',
+      prefix: 'const total = ',
+      suffix: '',
+      mode: 'single-line',
+      expected: 'items.length;'
+    },
+    {
+      name: 'drops repeated lines of the prefix',
+      completion: "import { b } from './b';\nimport { c } from './c';",
+      prefix: "import { a } from './a';\nimport { b } from './b';\n",
+      suffix: '',
+      mode: 'single-line',
+      expected: "import { c } from './c';"
+    },
+    {
+      name: 'keeps a short coincidental prefix overlap',
+      completion: 'x = x + 1;',
+      prefix: 'x',
+      suffix: '',
+      mode: 'single-line',
+      expected: 'x = x + 1;'
+    },
+    {
+      name: 'drops the start of the suffix at the end',
+      completion: 'er = 0;',
+      prefix: 'let count',
+      suffix: ' = 0;',
+      mode: 'single-line',
+      expected: 'er'
+    },
+    {
+      name: 'stops before a bracket the suffix already closes',
+      completion: 'message)',
+      prefix: 'console.log(',
+      suffix: ')',
+      mode: 'single-line',
+      expected: 'message'
+    },
+    {
+      name: 'stops before a brace the suffix already closes',
+      completion: 'y: 2 };',
+      prefix: 'const point = { x: 1, ',
+      suffix: ' }',
+      mode: 'single-line',
+      expected: 'y: 2'
+    },
+    {
+      name: 'keeps brackets the completion opens and closes',
+      completion: 'format(message))',
+      prefix: 'console.log(',
+      suffix: ')',
+      mode: 'single-line',
+      expected: 'format(message)'
+    },
+    {
+      name: 'ignores brackets in strings',
+      completion: "')')",
+      prefix: 'log(',
+      suffix: ')',
+      mode: 'single-line',
+      expected: "')'"
+    },
+    {
+      name: 'stops before a closing bracket that does not match',
+      completion: 'foo(]',
+      prefix: '',
+      suffix: '',
+      mode: 'single-line',
+      expected: 'foo('
+    },
+    {
+      name: 'cuts single-line mode at the end of the line',
+      completion: '1;\nconst b = 2;',
+      prefix: 'const a = ',
+      suffix: '',
+      mode: 'single-line',
+      expected: '1;'
+    },
+    {
+      name: 'completes the next line in single-line mode at the end of a line',
+      completion: '\nbar();\nbaz();',
+      prefix: 'foo();',
+      suffix: '',
+      mode: 'single-line',
+      expected: '\nbar();'
+    },
+    {
+      name: 'keeps the closing brace of the block in multi-line mode',
+      completion: '\n  return a + b;\n}\n\nfunction sub(a, b) {\n  return a - b;\n}',
+      prefix: 'function add(a, b) {',
+      suffix: '',
+      mode: 'multi-line',
+      expected: '\n  return a + b;\n}'
+    },
+    {
+      name: 'cuts multi-line mode where the indentation ends the block',
+      completion: "print(name)\n    return name\n\ngreet('x')",
+      prefix: 'def greet(name):\n    ',
+      suffix: '',
+      mode: 'multi-line',
+      expected: 'print(name)\n    return name'
+    },
+    {
+      name: 'cuts multi-line mode at two blank lines',
+      completion: 'const a = 1;\n\n\nconst b = 2;',
+      prefix: '// helpers\n',
+      suffix: '',
+      mode: 'multi-line',
+      expected: 'const a = 1;'
+    },
+    {
+      name: 'normalizes Windows line endings',
+      completion: '\r\n  return 1;\r\n}',
+      prefix: 'function one() {',
+      suffix: '',
+      mode: 'multi-line',
+      expected: '\n  return 1;\n}'
+    }
+  ];
+
+  cases.forEach(({ name, completion, prefix, suffix, mode, expected }) => {
+    test(name, () => {
+      assert.strictEqual(postProcessCompletion(completion, { prefix, suffix, mode }), expected);
+    });
+  });
+});
+
+suite('decideCompletionMode', () => {
+  const cases: [string, string, string, CompletionMode][] = [
+    ['in the middle of a line', 'const x = ', 'foo;\n', 'single-line'],
+    ['at the end of a statement', 'const x = 1;', '\n', 'single-line'],
+    ['at the end of a line that opens a block', 'function f() {', '\n}', 'multi-line'],
+    ['after an arrow', 'const f = () =>', '', 'multi-line'],
+    ['after a Python colon', 'def f(x):', '', 'multi-line'],
+    ['before closing brackets only', 'items.map(item => (', '));', 'multi-line'],
+    ['on an empty line after a block opener', 'if (x) {\n  ', '\n}', 'multi-line'],
+    ['on an empty line after a comment', 'let a;\n// sort the items\n', '', 'multi-line'],
+    ['on an empty line after a statement', 'foo();\n\n', '', 'single-line'],
+    ['at the end of a comment that ends with a brace', '// sort the {', '', 'single-line']
+  ];
+
+  cases.forEach(([name, prefix, suffix, expected]) => {
+    test(name, () => {
+      assert.strictEqual(decideCompletionMode(prefix, suffix), expected);
+    });
+  });
+});
+
+suite('getNextWord', () => {
+  const cases: [string, string][] = [
+    ['foo bar', 'foo'],
+    ['  bar baz', '  bar'],
+    ['(a, b)', '('],
+    ['=> x', '=>'],
+    ['$value + 1', '$value'],
+    ['\n  return x;', '\n  return'],
+    ['   ', '   '],
+    ['', '']
+  ];
+
+  cases.forEach(([text, expected]) => {
+    test(JSON.stringify(text), () => {
+      assert.strictEqual(getNextWord(text), expected);
+    });
+  });
+});
+
+suite('getNextLine', () => {
+  const cases: [string, string][] = [
+    ['foo();\nbar();', 'foo();'],
+    ['\nbar();\nbaz();', '\nbar();'],
+    ['single', 'single'],
+    ['', '']
+  ];
+
+  cases.forEach(([text, expected]) => {
+    test(JSON.stringify(text), () => {
+      assert.strictEqual(getNextLine(text), expected);
+    });
+  });
+});
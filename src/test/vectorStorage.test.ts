@@ -0,0 +1,164 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { CodeChunk, VectorStorage } from '../storage/vectorStorage';
+import { CodeIndexer } from '../storage/codeIndexer';
+import { EmbeddingProvider, HashEmbeddingProvider } from '../storage/embeddingProvider';
+import { ConfigurationManager } from '../config/configuration';
+import { DEFAULT_SETTINGS } from '../config/constants';
+
+const TEXT_FILE = `export function reverseWords(sentence: string): string {
+  return sentence.split(' ').reverse().join(' ');
+}
+
+export function capitalizeWords(sentence: string): string {
+  return sentence.replace(/\\b\\w/g, letter => letter.toUpperCase());
+}
+`;
+
+const GEOMETRY_FILE = `export function circleArea(radius: number): number {
+  return Math.PI * radius * radius;
+}
+
+export function rectangleArea(width: number, height: number): number {
+  return width * height;
+}
+`;
+
+suite('VectorStorage with HashEmbeddingProvider', () => {
+  let tempDir: string;
+  let textPath: string;
+  let geometryPath: string;
+  let storage: VectorStorage;
+  let indexer: CodeIndexer;
+
+  setup(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'logcai-vectors-'));
+    textPath = path.join(tempDir, 'text.ts');
+    geometryPath = path.join(tempDir, 'geometry.ts');
+    fs.writeFileSync(textPath, TEXT_FILE);
+    fs.writeFileSync(geometryPath, GEOMETRY_FILE);
+
+    const context = { globalStorageUri: vscode.Uri.file(path.join(tempDir, 'storage')) } as vscode.ExtensionContext;
+    const configManager = { getConfiguration: () => DEFAULT_SETTINGS } as unknown as ConfigurationManager;
+    const provider = new HashEmbeddingProvider();
+    storage = new VectorStorage(context);
+    storage.setEmbeddingProvider(provider);
+    indexer = new CodeIndexer(storage, configManager);
+    indexer.setEmbeddingProvider(provider);
+
+    await indexer.indexFile(vscode.Uri.file(textPath));
+    await indexer.indexFile(vscode.Uri.file(geometryPath));
+  });
+
+  teardown(() => {
+    storage.dispose();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('stores embedded chunks for each indexed file', async () => {
+    const expected: [string, string[]][] = [
+      [textPath, ['capitalizeWords', 'reverseWords']],
+      [geometryPath, ['circleArea', 'rectangleArea']]
+    ];
+    for (const [filePath, names] of expected) {
+      const chunks = await storage.getChunksForFile(filePath);
+      const functions = chunks.filter(chunk => chunk.chunkType === 'function').map(chunk => chunk.metadata?.name);
+      assert.deepStrictEqual(functions.sort(), names);
+      assert.ok(chunks.every(chunk => chunk.embeddingModel === 'hash:256' && chunk.embedding?.length === 256));
+    }
+  });
+
+  test('ranks the most similar chunk first', async () => {
+    const functionsOnly = { filter: (chunk: CodeChunk) => chunk.chunkType === 'function', threshold: 0 };
+
+    const text = await storage.search('reverse the sentence', functionsOnly);
+    assert.strictEqual(text[0].chunk.metadata?.name, 'reverseWords');
+
+    const geometry = await storage.search('area of a circle with this radius', functionsOnly);
+    assert.strictEqual(geometry[0].chunk.metadata?.name, 'circleArea');
+    assert.strictEqual(geometry[0].chunk.filePath, geometryPath);
+
+    const scores = geometry.map(result => result.score);
+    assert.deepStrictEqual(scores, [...scores].sort((a, b) => b - a));
+  });
+
+  test('replaces the chunks of a file when it is indexed again', async () => {
+    const before = await storage.count();
+    await indexer.indexFile(vscode.Uri.file(textPath));
+    assert.strictEqual(await storage.count(), before);
+  });
+
+  test('deleting a file removes its vectors', async () => {
+    const before = await storage.count();
+    const deleted = await storage.deleteChunksForFile(geometryPath);
+
+    assert.ok(deleted > 0);
+    assert.strictEqual(await storage.count(), before - deleted);
+    assert.deepStrictEqual(await storage.getChunksForFile(geometryPath), []);
+
+    const results = await storage.search('area of a circle with this radius', { threshold: 0, limit: 10 });
+    assert.ok(results.length > 0);
+    assert.ok(results.every(result => result.chunk.filePath === textPath));
+  });
+});
+
+suite('VectorStorage hybrid ranking', () => {
+  // Every query embeds to the same vector, so the chunk embeddings fix the semantic ranking
+  const queryProvider: EmbeddingProvider = { key: 'fixed', embed: async texts => texts.map(() => [1, 0]) };
+  let tempDir: string;
+  let storage: VectorStorage;
+
+  const addChunk = (id: string, content: string, embedding: number[]) => storage.addChunk({
+    id,
+    content,
+    filePath: `${id}.ts`,
+    language: 'typescript',
+    chunkType: 'function',
+    embedding,
+    embeddingModel: 'fixed',
+    lastUpdated: 0
+  });
+
+  setup(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'logcai-ranking-'));
+    storage = new VectorStorage({ globalStorageUri: vscode.Uri.file(tempDir) } as vscode.ExtensionContext);
+    // BM25 ranks "keywords" above "both" and doesn't match "semantic";
+    // the embeddings rank "both", then "semantic", then "keywords"
+    await addChunk('keywords', 'parseJson parse json json', [0, 1]);
+    await addChunk('both', 'parse json value', [1, 0]);
+    await addChunk('semantic', 'format date', [0.9, 0.1]);
+  });
+
+  teardown(() => {
+    storage.dispose();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('ranks by BM25 alone without an embedding provider', async () => {
+    const results = await storage.search('parse json');
+    assert.deepStrictEqual(results.map(result => result.chunk.id), ['keywords', 'both']);
+    assert.strictEqual(results[0].score, 1);
+  });
+
+  test('fuses keyword and embedding ranks', async () => {
+    storage.setEmbeddingProvider(queryProvider);
+    const results = await storage.search('parse json', { threshold: 0 });
+
+    // both: 1/61 + 1/62, keywords: 1/61 + 1/63, semantic: 1/62, normalized by 2/61
+    assert.deepStrictEqual(results.map(result => result.chunk.id), ['both', 'keywords', 'semantic']);
+    const expected = [1 / 61 + 1 / 62, 1 / 61 + 1 / 63, 1 / 62].map(score => score / (2 / 61));
+    results.forEach((result, i) => assert.ok(Math.abs(result.score - expected[i]) < 1e-9));
+  });
+
+  test('leaves out chunks below the similarity threshold', async () => {
+    storage.setEmbeddingProvider(queryProvider);
+    const results = await storage.search('parse json', { threshold: 0.5 });
+
+    assert.deepStrictEqual(results.map(result => result.chunk.id), ['both', 'keywords', 'semantic']);
+    // "keywords" only comes from BM25 now, so it has a single reciprocal rank
+    assert.ok(Math.abs(results[1].score - (1 / 61) / (2 / 61)) < 1e-9);
+  });
+});
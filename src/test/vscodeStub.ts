@@ -0,0 +1,137 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Module = require('module');
+
+/**
+ * Stand-in for the vscode module, which only exists inside the editor. Loaded
+ * with mocha's --require so the unit tests run in plain Node.js; it covers the
+ * parts of the API the tested modules use and does nothing with the UI.
+ */
+
+type Listener<T> = (e: T) => void;
+
+class EventEmitter<T> {
+  private listeners: Listener<T>[] = [];
+
+  event = (listener: Listener<T>) => {
+    this.listeners.push(listener);
+    return { dispose: () => { this.listeners = this.listeners.filter(l => l !== listener); } };
+  };
+
+  fire(data: T): void {
+    this.listeners.slice().forEach(listener => listener(data));
+  }
+
+  dispose(): void {
+    this.listeners = [];
+  }
+}
+
+class CancellationTokenSource {
+  private emitter = new EventEmitter<void>();
+
+  token = {
+    isCancellationRequested: false,
+    onCancellationRequested: this.emitter.event
+  };
+
+  cancel(): void {
+    if (!this.token.isCancellationRequested) {
+      this.token.isCancellationRequested = true;
+      this.emitter.fire();
+    }
+  }
+
+  dispose(): void {
+    this.emitter.dispose();
+  }
+}
+
+interface StubUri {
+  scheme: string;
+  fsPath: string;
+  path: string;
+  toString(): string;
+}
+
+function createUri(scheme: string, fsPath: string): StubUri {
+  return { scheme, fsPath, path: fsPath, toString: () => `${scheme}://${fsPath}` };
+}
+
+const LANGUAGES: Record<string, string> = {
+  '.js': 'javascript',
+  '.ts': 'typescript',
+  '.py': 'python',
+  '.md': 'markdown'
+};
+
+/**
+ * Read a file from disk into an object shaped like a TextDocument
+ */
+function openTextDocument(uri: StubUri) {
+  const text = fs.readFileSync(uri.fsPath, 'utf8');
+  return {
+    uri,
+    fileName: uri.fsPath,
+    languageId: LANGUAGES[path.extname(uri.fsPath)] ?? 'plaintext',
+    lineCount: text.split('\n').length,
+    getText: () => text,
+    positionAt: (offset: number) => {
+      const before = text.slice(0, offset).split('\n');
+      return { line: before.length - 1, character: before[before.length - 1].length };
+    }
+  };
+}
+
+const vscode = {
+  EventEmitter,
+  CancellationTokenSource,
+  ProgressLocation: { SourceControl: 1, Window: 10, Notification: 15 },
+  Uri: {
+    file: (fsPath: string) => createUri('file', fsPath),
+    parse: (value: string) => {
+      const url = new URL(value);
+      return createUri(url.protocol.replace(':', ''), url.pathname);
+    }
+  },
+  window: {
+    createOutputChannel: () => ({
+      append: () => undefined,
+      appendLine: () => undefined,
+      clear: () => undefined,
+      show: () => undefined,
+      dispose: () => undefined
+    }),
+    showErrorMessage: async () => undefined,
+    showWarningMessage: async () => undefined,
+    showInformationMessage: async () => undefined,
+    withProgress: <R>(
+      _options: unknown,
+      task: (progress: { report: () => void }, token: CancellationTokenSource['token']) => Promise<R>
+    ) => task({ report: () => undefined }, new CancellationTokenSource().token)
+  },
+  workspace: {
+    workspaceFolders: undefined,
+    getConfiguration: () => ({
+      get: <T>(_key: string, defaultValue?: T) => defaultValue,
+      update: async () => undefined
+    }),
+    // Without a workspace folder VS Code returns the path unchanged
+    asRelativePath: (pathOrUri: string | StubUri) => typeof pathOrUri === 'string' ? pathOrUri : pathOrUri.fsPath,
+    openTextDocument: async (uri: StubUri) => openTextDocument(uri)
+  },
+  commands: {
+    executeCommand: async () => undefined
+  },
+  env: {
+    openExternal: async () => true
+  }
+};
+
+const moduleLoader = Module as unknown as {
+  _load: (request: string, parent: unknown, isMain: boolean) => unknown;
+};
+const load = moduleLoader._load;
+moduleLoader._load = function (request, parent, isMain) {
+  return request === 'vscode' ? vscode : load.call(this, request, parent, isMain);
+};
@@ -0,0 +1,158 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { DiffPreview, resolveWorkspacePath } from './diffPreview';
+import { EditHunk, FileEditPlan, applyHunk, applyHunks } from '../utils/editPlan';
+import { log } from '../utils/logging';
+
+/**
+ * A file edit from a model response, resolved against the workspace
+ */
+export interface ResolvedFileEdit extends FileEditPlan {
+  /** Undefined if the path is outside the workspace */
+  uri: vscode.Uri | undefined;
+  exists: boolean;
+  /** Whether each hunk applies to the current file content */
+  applicable: boolean[];
+}
+
+/**
+ * Hunk indexes the user accepted, by file path
+ */
+export type AcceptedHunks = Record<string, number[]>;
+
+/**
+ * Keeps the multi-file change sets proposed in chat answers, previews them
+ * and applies the accepted hunks atomically
+ */
+export class ChangeSetManager {
+  private changeSets: Map<string, ResolvedFileEdit[]> = new Map();
+
+  constructor(private diffPreview: DiffPreview) {}
+
+  /**
+   * Resolve the files of an edit plan and check which hunks apply
+   * @param id Identifies the change set, e.g. the ID of the message that proposed it
+   */
+  async create(id: string, plans: FileEditPlan[]): Promise<ResolvedFileEdit[]> {
+    const files: ResolvedFileEdit[] = [];
+
+    for (const plan of plans) {
+      const uri = resolveWorkspacePath(plan.filePath);
+      const exists = uri !== undefined && fs.existsSync(uri.fsPath);
+      const content = exists ? await this.readContent(uri!) : '';
+
+      files.push({
+        ...plan,
+        uri,
+        exists,
+        // Hunks are checked one by one, so a hunk that only applies after an earlier one is still offered
+        applicable: plan.hunks.map(hunk => uri !== undefined && applyHunk(content.replace(/\r\n/g, '\n'), hunk) !== undefined)
+      });
+    }
+
+    this.changeSets.set(id, files);
+    log.info(`Change set ${id}: ${files.length} files, ${files.reduce((sum, file) => sum + file.hunks.length, 0)} hunks`);
+    return files;
+  }
+
+  /**
+   * Show a diff of a file with the accepted hunks applied
+   */
+  async preview(id: string, filePath: string, accepted: number[]): Promise<void> {
+    const file = this.changeSets.get(id)?.find(candidate => candidate.filePath === filePath);
+    if (!file?.uri) {
+      vscode.window.showErrorMessage(`Cannot preview ${filePath}: the file is outside the workspace`);
+      return;
+    }
+
+    const original = file.exists ? await this.readContent(file.uri) : '';
+    const { content } = applyHunks(original, this.selectHunks(file, accepted));
+    await this.diffPreview.showDiff(file.uri, content, 'Proposed changes');
+  }
+
+  /**
+   * Apply the accepted hunks of all files in a single WorkspaceEdit.
+   * Nothing is applied if any accepted hunk no longer matches its file.
+   * @returns true if the changes were applied
+   */
+  async apply(id: string, accepted: AcceptedHunks): Promise<boolean> {
+    const files = this.changeSets.get(id);
+    if (!files) {
+      vscode.window.showErrorMessage('These changes are no longer available');
+      return false;
+    }
+
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    const problems: string[] = [];
+    let changedFiles = 0;
+
+    for (const file of files) {
+      const hunks = this.selectHunks(file, accepted[file.filePath] || []);
+      if (hunks.length === 0) {
+        continue;
+      }
+      if (!file.uri) {
+        problems.push(`${file.filePath} is outside the workspace`);
+        continue;
+      }
+
+      const exists = fs.existsSync(file.uri.fsPath);
+      if (exists) {
+        const document = await vscode.workspace.openTextDocument(file.uri);
+        const { content, failed } = applyHunks(document.getText(), hunks);
+        if (failed.length > 0) {
+          problems.push(`${file.filePath}: ${failed.length} change(s) no longer match the file`);
+          continue;
+        }
+        const fullRange = new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length));
+        workspaceEdit.replace(file.uri, fullRange, content);
+      } else {
+        const { content, failed } = applyHunks('', hunks);
+        if (failed.length > 0) {
+          problems.push(`${file.filePath} does not exist`);
+          continue;
+        }
+        workspaceEdit.createFile(file.uri, { ignoreIfExists: false });
+        workspaceEdit.insert(file.uri, new vscode.Position(0, 0), content.endsWith('\n') ? content : `${content}\n`);
+      }
+      changedFiles++;
+    }
+
+    if (problems.length > 0) {
+      vscode.window.showErrorMessage(`No changes were applied. ${problems.join('; ')}`);
+      return false;
+    }
+    if (changedFiles === 0) {
+      vscode.window.showInformationMessage('No changes selected');
+      return false;
+    }
+
+    const applied = await vscode.workspace.applyEdit(workspaceEdit);
+    if (applied) {
+      this.changeSets.delete(id);
+      vscode.window.showInformationMessage(`Applied changes to ${changedFiles} file${changedFiles === 1 ? '' : 's'}`);
+    } else {
+      vscode.window.showErrorMessage('Failed to apply the changes');
+    }
+    return applied;
+  }
+
+  /**
+   * Forget a change set without applying it
+   */
+  discard(id: string): void {
+    this.changeSets.delete(id);
+  }
+
+  private selectHunks(file: ResolvedFileEdit, accepted: number[]): EditHunk[] {
+    return file.hunks.filter((_, index) => accepted.includes(index));
+  }
+
+  /**
+   * Read a file through its document, so unsaved changes are taken into account
+   */
+  private async readContent(uri: vscode.Uri): Promise<string> {
+    const document = await vscode.workspace.openTextDocument(uri);
+    return document.getText();
+  }
+}
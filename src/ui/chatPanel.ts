@@ -4,22 +4,36 @@ import { v4 as uuidv4 } from 'uuid';
 import { ModelManager } from '../models/modelManager';
 import { ContextManager } from '../context/contextManager';
 import { RAGService } from '../storage/ragService';
+import { SessionStorage } from '../storage/sessionStorage';
+import { DiffPreview, resolveWorkspacePath } from './diffPreview';
+import { ChangeSetManager } from './changeSet';
+import { containsEditMarkers, parseEditPlan } from '../utils/editPlan';
 import { ChatMessage, Conversation } from '../models/interfaces';
-import { WEBVIEW } from '../config/constants';
+import { PROMPTS, WEBVIEW } from '../config/constants';
 import { handleError } from '../utils/errorHandler';
 import { log } from '../utils/logging';
 
+// Share of the prompt budget for the code context; the rest is for instructions, snippets and history
+const CODE_CONTEXT_SHARE = 0.5;
+// Most messages of the conversation sent with a new message
+const MAX_HISTORY_MESSAGES = 10;
+
 export class ChatPanel {
   private static currentPanel: ChatPanel | undefined;
   private readonly panel: vscode.WebviewPanel;
   private disposables: vscode.Disposable[] = [];
   private currentConversation: Conversation;
   private ragService: RAGService | undefined;
+  // The panel takes focus when used, so remember the editor code should be applied to
+  private lastActiveEditor: vscode.TextEditor | undefined = vscode.window.activeTextEditor;
+  private changeSets: ChangeSetManager;
 
   private constructor(
     private readonly extensionContext: vscode.ExtensionContext,
     private readonly modelManager: ModelManager,
-    private readonly contextManager: ContextManager
+    private readonly contextManager: ContextManager,
+    private readonly sessionStorage: SessionStorage,
+    private readonly diffPreview: DiffPreview
   ) {
     // Create WebView panel
     this.panel = vscode.window.createWebviewPanel(
@@ -37,6 +51,7 @@ export class ChatPanel {
 
     // Initialize a new conversation
     this.currentConversation = this.createNewConversation();
+    this.changeSets = new ChangeSetManager(diffPreview);
 
     // Set initial HTML content
     this.panel.webview.html = this.getWebviewContent();
@@ -58,6 +73,24 @@ export class ChatPanel {
             case 'copyToEditor':
               await this.copyToEditor(message.text);
               break;
+            case 'applyCode':
+              await this.applyCode(message.text, message.filePath);
+              break;
+            case 'previewEditPlanFile':
+              await this.changeSets.preview(message.planId, message.filePath, message.accepted);
+              break;
+            case 'applyEditPlan': {
+              const applied = await this.changeSets.apply(message.planId, message.accepted);
+              this.panel.webview.postMessage({
+                command: 'editPlanApplied',
+                planId: message.planId,
+                applied
+              });
+              break;
+            }
+            case 'discardEditPlan':
+              this.changeSets.discard(message.planId);
+              break;
             case 'startOllama':
               await this.startOllama();
               break;
@@ -67,6 +100,18 @@ export class ChatPanel {
             case 'changeModel':
               await this.changeModel();
               break;
+            case 'listConversations':
+              await this.sendConversationList(message.query);
+              break;
+            case 'openConversation':
+              await this.openConversation(message.id);
+              break;
+            case 'renameConversation':
+              await this.renameConversation(message.id);
+              break;
+            case 'deleteConversation':
+              await this.deleteConversation(message.id);
+              break;
           }
         } catch (error) {
           handleError(error as Error, 'Failed to handle webview message');
@@ -94,6 +139,17 @@ export class ChatPanel {
       null,
       this.disposables
     );
+
+    // Track the last text editor so code can be applied after the panel takes focus
+    vscode.window.onDidChangeActiveTextEditor(
+      (editor) => {
+        if (editor) {
+          this.lastActiveEditor = editor;
+        }
+      },
+      null,
+      this.disposables
+    );
   }
 
   /**
@@ -103,6 +159,8 @@ export class ChatPanel {
     extensionContext: vscode.ExtensionContext,
     modelManager: ModelManager,
     contextManager: ContextManager,
+    sessionStorage: SessionStorage,
+    diffPreview: DiffPreview,
     ragService?: RAGService
   ): ChatPanel {
     // If we already have a panel, show it
@@ -112,7 +170,7 @@ export class ChatPanel {
     }
 
     // Otherwise, create a new panel
-    const panel = new ChatPanel(extensionContext, modelManager, contextManager);
+    const panel = new ChatPanel(extensionContext, modelManager, contextManager, sessionStorage, diffPreview);
 
     if (ragService) {
       panel.ragService = ragService;
@@ -135,6 +193,15 @@ export class ChatPanel {
     this.panel.reveal();
   }
 
+  /**
+   * Send a prompt as a user message and stream the response into the panel
+   * @param editor Editor to take the code context from, since the panel itself may have focus
+   * @returns The response, or undefined if the request failed
+   */
+  public async sendPrompt(text: string, editor?: vscode.TextEditor): Promise<string | undefined> {
+    return this.handleUserMessage(text, editor);
+  }
+
   /**
    * Dispose of the panel resources
    */
@@ -222,11 +289,18 @@ export class ChatPanel {
       </div>
       <div class="shortcut-hint">Press Shift+Enter for new line</div>
       <div class="action-buttons">
-        <button id="clear-button" title="Clear Chat">
-          Clear
+        <button id="history-button" title="Conversation History">
+          History
+        </button>
+        <button id="clear-button" title="Start a New Chat">
+          New Chat
         </button>
       </div>
     </div>
+    <div class="history-panel hidden" id="history-panel">
+      <input type="text" id="history-search" placeholder="Search conversations..." />
+      <div class="history-list" id="history-list"></div>
+    </div>
     <div class="messages-container" id="messages-container">
       <div class="welcome-message">
         <h2>Welcome to LogCAI</h2>
@@ -266,10 +340,14 @@ export class ChatPanel {
 
   /**
    * Handle user messages
+   * @returns The assistant response, or undefined if there was none
    */
-  private async handleUserMessage(text: string): Promise<void> {
+  private async handleUserMessage(
+    text: string,
+    editor: vscode.TextEditor | undefined = vscode.window.activeTextEditor
+  ): Promise<string | undefined> {
     if (!text.trim()) {
-      return;
+      return undefined;
     }
     try {
       // Create user message
@@ -283,6 +361,7 @@ export class ChatPanel {
       // Add to conversation
       this.currentConversation.messages.push(userMessage);
       this.currentConversation.updatedAt = Date.now();
+      await this.sessionStorage.saveConversation(this.currentConversation);
 
       // Update UI
       this.panel.webview.postMessage({
@@ -295,42 +374,35 @@ export class ChatPanel {
         command: 'showTypingIndicator'
       });
 
+      // Size the prompt to the context window of the chat model
+      const promptBudget = await this.modelManager.getPromptBudget('chat');
+
       // Get context from current file if available
       let contextInfo = '';
-      const activeEditor = vscode.window.activeTextEditor;
+      const activeEditor = editor;
       if (activeEditor) {
         contextInfo = await this.contextManager.getFullContext(
           activeEditor.document,
-          activeEditor.selection.active
+          activeEditor.selection.active,
+          Math.floor(promptBudget * CODE_CONTEXT_SHARE)
         );
       }
 
-      // Prepare the prompt with context
-      let prompt = `User question: ${text}\n\n`;
+      // Build the system prompt with the code context
+      let systemPrompt = PROMPTS.CHAT_SYSTEM.replace('{PROJECT_NAME}', vscode.workspace.name || 'Untitled');
+      systemPrompt += `\n\n${PROMPTS.EDIT_PLAN_FORMAT}`;
       if (contextInfo) {
-        prompt += `Current code context:\n${contextInfo}\n\n`;
+        systemPrompt += `\n\nCurrent code context:\n${contextInfo}`;
       }
 
-      // Add conversation history (limited to last 5 messages)
-      const recentMessages = this.currentConversation.messages
-        .slice(-10) // Last 10 messages
-        .filter(msg => msg.id !== userMessage.id); // Exclude current message
-      if (recentMessages.length > 0) {
-        prompt += "Previous conversation:\n";
-        for (const msg of recentMessages) {
-          prompt += `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}\n`;
-        }
-        prompt += "\n";
-      }
-
-      // Use RAG to augment the prompt if available
+      // Use RAG to augment the system prompt if available
       if (this.ragService) {
         const config = vscode.workspace.getConfiguration('logcai');
         const enableRAG = config.get<boolean>('enableRAG', true);
         const maxSnippets = config.get<number>('maxRAGSnippets', 3);
         if (enableRAG) {
-          prompt = await this.ragService.augmentPromptWithRAG(
-            prompt,
+          systemPrompt = await this.ragService.augmentPromptWithRAG(
+            systemPrompt,
             text,
             activeEditor?.document.languageId,
             maxSnippets
@@ -338,13 +410,22 @@ export class ChatPanel {
         }
       }
 
-      // Add latest question
-      prompt += `Please respond to the user's question: ${text}`;
+      // Send the system prompt followed by recent history, ending with the new user message
+      const history = this.selectHistory(promptBudget - systemPrompt.length);
+      const messages: ChatMessage[] = [
+        {
+          role: 'system',
+          content: systemPrompt,
+          timestamp: Date.now(),
+          id: uuidv4()
+        },
+        ...history
+      ];
 
       // Generate response using streaming
       let responseContent = '';
-      await this.modelManager.streamCompletion(
-        prompt,
+      await this.modelManager.streamChat(
+        messages,
         (text, final) => {
           responseContent += text;
           // Update UI with streamed response
@@ -366,12 +447,16 @@ export class ChatPanel {
       // Add to conversation
       this.currentConversation.messages.push(assistantMessage);
       this.currentConversation.updatedAt = Date.now();
+      await this.sessionStorage.saveConversation(this.currentConversation);
 
       // Update UI
       this.panel.webview.postMessage({
         command: 'replaceStreamedResponse',
         message: assistantMessage
       });
+
+      await this.proposeEditPlan(assistantMessage);
+      return responseContent;
     } catch (error) {
       // Hide typing indicator
       this.panel.webview.postMessage({
@@ -384,9 +469,32 @@ export class ChatPanel {
         error: error instanceof Error ? error.message : 'Unknown error'
       });
       handleError(error as Error, 'Failed to handle user message');
+      return undefined;
     }
   }
 
+  /**
+   * Get the most recent messages that fit in the remaining prompt budget, up to 10.
+   * The new user message is always included.
+   */
+  private selectHistory(budget: number): ChatMessage[] {
+    const messages = this.currentConversation.messages
+      .filter(msg => msg.role === 'user' || msg.role === 'assistant')
+      .slice(-MAX_HISTORY_MESSAGES);
+
+    const history: ChatMessage[] = [];
+    let used = 0;
+    for (let i = messages.length - 1; i >= 0; i--) {
+      used += messages[i].content.length;
+      if (history.length > 0 && used > budget) {
+        log.debug(`Sending ${history.length} of ${messages.length} messages to fit the context window`);
+        break;
+      }
+      history.unshift(messages[i]);
+    }
+    return history;
+  }
+
   /**
    * Regenerate the last assistant response
    */
@@ -412,10 +520,8 @@ export class ChatPanel {
       // Get the user message
       const userMessage = messages[lastUserMessageIndex];
 
-      // Remove the last assistant message if it exists
-      if (lastAssistantMessageIndex !== -1) {
-        messages.splice(lastAssistantMessageIndex, 1);
-      }
+      // Remove the last exchange; handleUserMessage adds the user message back
+      messages.splice(lastUserMessageIndex);
 
       // Now handle the user message again to generate a new response
       await this.handleUserMessage(userMessage.content);
@@ -425,7 +531,7 @@ export class ChatPanel {
   }
 
   /**
-   * Clear the chat
+   * Clear the chat and start a new conversation (the previous one stays in history)
    */
   private clearChat(): void {
     this.currentConversation = this.createNewConversation();
@@ -434,6 +540,82 @@ export class ChatPanel {
     });
   }
 
+  /**
+   * Send the list of stored conversations to the webview
+   */
+  private async sendConversationList(query?: string): Promise<void> {
+    const conversations = await this.sessionStorage.listConversations(query);
+    this.panel.webview.postMessage({
+      command: 'conversationList',
+      conversations,
+      currentId: this.currentConversation.id
+    });
+  }
+
+  /**
+   * Resume a stored conversation
+   */
+  private async openConversation(id: string): Promise<void> {
+    const conversation = await this.sessionStorage.loadConversation(id);
+    if (!conversation) {
+      vscode.window.showErrorMessage('LogCAI: Conversation could not be loaded');
+      await this.sendConversationList();
+      return;
+    }
+
+    this.currentConversation = conversation;
+    this.panel.webview.postMessage({
+      command: 'loadConversation',
+      conversation
+    });
+  }
+
+  /**
+   * Rename a stored conversation
+   */
+  private async renameConversation(id: string): Promise<void> {
+    const summary = (await this.sessionStorage.listConversations()).find(item => item.id === id);
+    if (!summary) {
+      return;
+    }
+
+    const title = await vscode.window.showInputBox({
+      prompt: 'Enter a new name for the conversation',
+      value: summary.title,
+      title: 'LogCAI: Rename Conversation'
+    });
+    if (!title) {
+      return;
+    }
+
+    await this.sessionStorage.renameConversation(id, title);
+    if (this.currentConversation.id === id) {
+      this.currentConversation.title = title.trim();
+      this.currentConversation.titleSet = true;
+    }
+    await this.sendConversationList();
+  }
+
+  /**
+   * Delete a stored conversation after confirmation
+   */
+  private async deleteConversation(id: string): Promise<void> {
+    const confirmed = await vscode.window.showWarningMessage(
+      'Are you sure you want to delete this conversation?',
+      { modal: true },
+      'Delete'
+    );
+    if (confirmed !== 'Delete') {
+      return;
+    }
+
+    await this.sessionStorage.deleteConversation(id);
+    if (this.currentConversation.id === id) {
+      this.clearChat();
+    }
+    await this.sendConversationList();
+  }
+
   /**
    * Copy code to the active editor
    */
@@ -455,6 +637,75 @@ export class ChatPanel {
     }
   }
 
+  /**
+   * Apply a code block from a response after previewing the change in a diff.
+   * The target is the file named in the code fence, otherwise the last active editor;
+   * the selection is replaced if that editor has one, otherwise the whole file.
+   */
+  private async applyCode(text: string, filePath?: string): Promise<void> {
+    // Writing edit markers into the file would corrupt it; edit plans are reviewed as a change set
+    if (containsEditMarkers(text)) {
+      vscode.window.showWarningMessage('This code block describes edits; review them in the proposed changes instead');
+      return;
+    }
+
+    try {
+      let uri: vscode.Uri | undefined;
+      if (filePath) {
+        uri = resolveWorkspacePath(filePath);
+        if (!uri) {
+          vscode.window.showErrorMessage(`Cannot apply code to ${filePath}: the file is outside the workspace`);
+          return;
+        }
+      } else {
+        uri = this.lastActiveEditor?.document.uri;
+        if (!uri) {
+          vscode.window.showErrorMessage('No active editor to apply the code to');
+          return;
+        }
+      }
+
+      const editor = this.lastActiveEditor;
+      const range = editor && editor.document.uri.toString() === uri.toString() && !editor.selection.isEmpty
+        ? editor.selection
+        : undefined;
+
+      await this.diffPreview.previewAndApply({ uri, range, newText: text }, 'Change');
+    } catch (error) {
+      handleError(error as Error, 'Failed to apply code');
+    }
+  }
+
+  /**
+   * Show the file edits proposed in a response as a change set the user can review
+   */
+  private async proposeEditPlan(message: ChatMessage): Promise<void> {
+    const plans = parseEditPlan(message.content);
+    if (plans.length === 0) {
+      return;
+    }
+
+    try {
+      const files = await this.changeSets.create(message.id, plans);
+      this.panel.webview.postMessage({
+        command: 'showEditPlan',
+        planId: message.id,
+        files: files.map(file => ({
+          filePath: file.filePath,
+          isNew: !file.exists,
+          outsideWorkspace: file.uri === undefined,
+          hunks: file.hunks.map((hunk, index) => ({
+            search: hunk.search,
+            replace: hunk.replace,
+            applicable: file.applicable[index]
+          }))
+        }))
+      });
+    } catch (error) {
+      handleError(error as Error, 'Failed to prepare the proposed changes');
+    }
+  }
+
   /**
    * Start the Ollama server
    */
@@ -0,0 +1,274 @@
+import * as vscode from 'vscode';
+import { ModelManager } from '../models/modelManager';
+import { ContextManager } from '../context/contextManager';
+import { CodeOperationResult, CodeOperationType } from '../models/interfaces';
+import { PROMPTS } from '../config/constants';
+import { ChatPanel } from './chatPanel';
+import { DiffPreview } from './diffPreview';
+import { extractCodeBlock } from '../utils/textProcessing';
+import { handleError } from '../utils/errorHandler';
+import { log } from '../utils/logging';
+
+/**
+ * Code a command operates on
+ */
+interface OperationTarget {
+  editor: vscode.TextEditor;
+  range: vscode.Range;
+  code: string;
+}
+
+/**
+ * Runs the explain, refactor, fix, test and documentation commands on the editor selection.
+ * Explanations and tests are streamed into the chat panel; edits are previewed in a diff.
+ */
+export class CodeOperations {
+  constructor(
+    private modelManager: ModelManager,
+    private contextManager: ContextManager,
+    private diffPreview: DiffPreview,
+    private showChatPanel: () => ChatPanel
+  ) {}
+
+  /**
+   * Explain the selected code in the chat panel
+   */
+  async explainSelection(editor = vscode.window.activeTextEditor): Promise<CodeOperationResult> {
+    const target = this.getSelectionTarget(editor);
+    if (!target) {
+      return this.failure(CodeOperationType.EXPLANATION, '', 'No code selected');
+    }
+
+    const prompt = await this.fillTemplate(PROMPTS.CODE_EXPLANATION, target);
+    return this.streamToChat(CodeOperationType.EXPLANATION, 'Explanation', target, prompt);
+  }
+
+  /**
+   * Refactor the selected code and preview the result in a diff
+   */
+  async refactorSelection(editor = vscode.window.activeTextEditor): Promise<CodeOperationResult> {
+    const target = this.getSelectionTarget(editor);
+    if (!target) {
+      return this.failure(CodeOperationType.REFACTORING, '', 'No code selected');
+    }
+
+    const prompt = await this.fillTemplate(PROMPTS.CODE_REFACTORING, target);
+    return this.proposeEdit(CodeOperationType.REFACTORING, 'Refactoring', target, prompt);
+  }
+
+  /**
+   * Fix the errors reported at the selection (or cursor line) and preview the result in a diff
+   */
+  async fixError(editor = vscode.window.activeTextEditor): Promise<CodeOperationResult> {
+    if (!editor) {
+      vscode.window.showWarningMessage('Open a file to fix an error');
+      return this.failure(CodeOperationType.ERROR_FIXING, '', 'No active editor');
+    }
+
+    const { document, selection } = editor;
+    const diagnostics = vscode.languages.getDiagnostics(document.uri)
+      .filter(diagnostic =>
+        diagnostic.severity <= vscode.DiagnosticSeverity.Warning &&
+        (selection.isEmpty
+          ? diagnostic.range.start.line <= selection.active.line && diagnostic.range.end.line >= selection.active.line
+          : diagnostic.range.intersection(selection) !== undefined)
+      )
+      .sort((a, b) => a.severity - b.severity);
+
+    let errorMessage: string | undefined;
+    let range: vscode.Range = selection;
+    if (diagnostics.length > 0) {
+      errorMessage = diagnostics
+        .map(diagnostic => `Line ${diagnostic.range.start.line + 1}: ${diagnostic.message}${diagnostic.source ? ` (${diagnostic.source})` : ''}`)
+        .join('\n');
+
+      // Without a selection, rewrite the full lines covered by the diagnostics
+      if (selection.isEmpty) {
+        const startLine = Math.min(...diagnostics.map(diagnostic => diagnostic.range.start.line));
+        const endLine = Math.max(...diagnostics.map(diagnostic => diagnostic.range.end.line));
+        range = new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length);
+      }
+    } else {
+      errorMessage = await vscode.window.showInputBox({
+        prompt: 'No errors are reported here. Describe the problem to fix',
+        placeHolder: 'e.g. TypeError: cannot read properties of undefined'
+      });
+      if (!errorMessage) {
+        return this.failure(CodeOperationType.ERROR_FIXING, '', 'No error to fix');
+      }
+      if (selection.isEmpty) {
+        range = document.lineAt(selection.active.line).range;
+      }
+    }
+
+    const target: OperationTarget = { editor, range, code: document.getText(range) };
+    const prompt = await this.fillTemplate(PROMPTS.ERROR_FIXING, target, { ERROR_MESSAGE: errorMessage });
+    return this.proposeEdit(CodeOperationType.ERROR_FIXING, 'Fix', target, prompt);
+  }
+
+  /**
+   * Generate unit tests for the selected code in the chat panel
+   */
+  async generateTests(editor = vscode.window.activeTextEditor): Promise<CodeOperationResult> {
+    const target = this.getSelectionTarget(editor);
+    if (!target) {
+      return this.failure(CodeOperationType.TEST_GENERATION, '', 'No code selected');
+    }
+
+    const prompt = await this.fillTemplate(PROMPTS.TEST_GENERATION, target);
+    return this.streamToChat(CodeOperationType.TEST_GENERATION, 'Test generation', target, prompt);
+  }
+
+  /**
+   * Add documentation comments to the selected code and preview the result in a diff
+   */
+  async generateDocs(editor = vscode.window.activeTextEditor): Promise<CodeOperationResult> {
+    const target = this.getSelectionTarget(editor);
+    if (!target) {
+      return this.failure(CodeOperationType.DOCUMENTATION, '', 'No code selected');
+    }
+
+    const prompt = await this.fillTemplate(PROMPTS.DOCUMENTATION, target);
+    return this.proposeEdit(CodeOperationType.DOCUMENTATION, 'Documentation', target, prompt);
+  }
+
+  /**
+   * Get the selected code, warning the user if nothing is selected
+   */
+  private getSelectionTarget(editor: vscode.TextEditor | undefined): OperationTarget | undefined {
+    if (!editor || editor.selection.isEmpty) {
+      vscode.window.showWarningMessage('Select some code first');
+      return undefined;
+    }
+    return {
+      editor,
+      range: editor.selection,
+      code: editor.document.getText(editor.selection)
+    };
+  }
+
+  /**
+   * Fill a prompt template with the target code and its context
+   */
+  private async fillTemplate(
+    template: string,
+    target: OperationTarget,
+    values: Record<string, string> = {}
+  ): Promise<string> {
+    const { document } = target.editor;
+    const fileContext = await this.contextManager.extractCurrentFileContext(document, target.range.start);
+
+    // The chat panel adds the code context itself, so only fetch it for templates that use it
+    let context = '';
+    if (template.includes('{CONTEXT}')) {
+      // Leave half of the model's prompt budget for the instructions and the code itself
+      const promptBudget = await this.modelManager.getPromptBudget('chat');
+      context = await this.contextManager.getFullContext(document, target.range.start, Math.floor(promptBudget / 2));
+    }
+
+    const placeholders: Record<string, string> = {
+      FILE_NAME: fileContext.relativePath,
+      LANGUAGE: fileContext.language,
+      PROJECT_NAME: vscode.workspace.name || 'Untitled',
+      CONTEXT: context,
+      CODE: `\`\`\`${fileContext.language}\n${target.code}\n\`\`\``,
+      ...values
+    };
+
+    // Use a replacer function so "$" sequences in the code are not treated as patterns
+    return template.replace(/\{([A-Z_]+)\}/g, (placeholder, name: string) =>
+      name in placeholders ? placeholders[name] : placeholder
+    );
+  }
+
+  /**
+   * Send the prompt to the chat panel and stream the response there
+   */
+  private async streamToChat(
+    type: CodeOperationType,
+    title: string,
+    target: OperationTarget,
+    prompt: string
+  ): Promise<CodeOperationResult> {
+    try {
+      const chatPanel = this.showChatPanel();
+      const output = await chatPanel.sendPrompt(prompt, target.editor);
+
+      return {
+        type,
+        input: target.code,
+        output: output ?? '',
+        success: output !== undefined,
+        error: output === undefined ? 'The model did not return a response' : undefined,
+        metadata: this.getMetadata(target)
+      };
+    } catch (error) {
+      handleError(error as Error, `${title} failed`);
+      return this.failure(type, target.code, (error as Error).message);
+    }
+  }
+
+  /**
+   * Ask the model for replacement code and let the user review it in a diff
+   */
+  private async proposeEdit(
+    type: CodeOperationType,
+    title: string,
+    target: OperationTarget,
+    prompt: string
+  ): Promise<CodeOperationResult> {
+    try {
+      // The request is silent so that a failure is reported once, by the catch below
+      const { response, cancelled } = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `LogCAI: ${title}`, cancellable: true },
+        async (_progress, token) => {
+          // Edits are instructions, so they go to the chat model rather than the inline completion model
+          const text = await this.modelManager.getCompletion(
+            `${prompt}\n\n${PROMPTS.CODE_ONLY_RESPONSE}`,
+            { role: 'chat', silent: true },
+            token
+          );
+          return { response: text, cancelled: token.isCancellationRequested };
+        }
+      );
+      if (cancelled) {
+        return this.failure(type, target.code, 'Cancelled');
+      }
+
+      const output = extractCodeBlock(response);
+      if (!output) {
+        vscode.window.showWarningMessage('The model did not return any code');
+        return this.failure(type, target.code, 'Empty response');
+      }
+
+      const applied = await this.diffPreview.previewAndApply(
+        { uri: target.editor.document.uri, range: target.range, newText: output },
+        title
+      );
+      log.info(`${title} ${applied ? 'applied to' : 'discarded for'} ${target.editor.document.fileName}`);
+
+      return {
+        type,
+        input: target.code,
+        output,
+        success: true,
+        metadata: { ...this.getMetadata(target), applied }
+      };
+    } catch (error) {
+      handleError(error as Error, `${title} failed`);
+      return this.failure(type, target.code, (error as Error).message);
+    }
+  }
+
+  private getMetadata(target: OperationTarget): Record<string, any> {
+    return {
+      filePath: vscode.workspace.asRelativePath(target.editor.document.uri),
+      startLine: target.range.start.line,
+      endLine: target.range.end.line
+    };
+  }
+
+  private failure(type: CodeOperationType, input: string, error: string): CodeOperationResult {
+    return { type, input, output: '', success: false, error };
+  }
+}
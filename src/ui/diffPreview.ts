@@ -0,0 +1,217 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { log } from '../utils/logging';
+
+const PROPOSED_SCHEME = 'logcai-proposed';
+
+/**
+ * Serves the proposed contents shown on the right-hand side of a diff
+ */
+class ProposedContentProvider implements vscode.TextDocumentContentProvider {
+  private contents: Map<string, string> = new Map();
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.contents.get(uri.toString()) ?? '';
+  }
+
+  set(uri: vscode.Uri, content: string): void {
+    this.contents.set(uri.toString(), content);
+  }
+
+  delete(uri: vscode.Uri): void {
+    this.contents.delete(uri.toString());
+  }
+}
+
+/**
+ * A proposed replacement of a range in a document
+ */
+export interface ProposedEdit {
+  uri: vscode.Uri;
+  /** Range to replace; the whole document if omitted */
+  range?: vscode.Range;
+  newText: string;
+}
+
+/**
+ * Resolve a file path named by the model against the workspace folders
+ * @returns undefined if the path is outside the workspace
+ */
+export function resolveWorkspacePath(filePath: string): vscode.Uri | undefined {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  const isInside = (folder: vscode.WorkspaceFolder, target: string) => {
+    const relative = path.relative(folder.uri.fsPath, target);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+  };
+
+  if (path.isAbsolute(filePath)) {
+    return folders.some(folder => isInside(folder, filePath)) ? vscode.Uri.file(filePath) : undefined;
+  }
+
+  const candidates = folders
+    .map(folder => ({ folder, uri: vscode.Uri.file(path.join(folder.uri.fsPath, filePath)) }))
+    .filter(({ folder, uri }) => isInside(folder, uri.fsPath))
+    .map(({ uri }) => uri);
+
+  // Prefer the folder that already contains the file
+  return candidates.find(uri => fs.existsSync(uri.fsPath)) ?? candidates[0];
+}
+
+/**
+ * Shows proposed edits in a diff editor and applies them once the user accepts
+ */
+export class DiffPreview implements vscode.Disposable {
+  private contentProvider = new ProposedContentProvider();
+  private registration: vscode.Disposable;
+  // Read-only previews by file URI, so repeated previews of a file replace each other
+  private previews: Map<string, vscode.Uri> = new Map();
+
+  constructor() {
+    this.registration = vscode.workspace.registerTextDocumentContentProvider(
+      PROPOSED_SCHEME,
+      this.contentProvider
+    );
+  }
+
+  /**
+   * Open a diff of the document against the proposed edit and ask whether to apply it.
+   * If the file does not exist yet, the diff is against an empty document and applying creates it.
+   * The edit is applied as a single WorkspaceEdit, so it can be undone in one step.
+   * @param title Short description of the change, e.g. "Refactor"
+   * @returns true if the edit was applied
+   */
+  async previewAndApply(edit: ProposedEdit, title: string): Promise<boolean> {
+    const fileName = path.basename(edit.uri.fsPath);
+    // Only files on disk can be missing; other schemes (e.g. untitled) are always open documents
+    const exists = edit.uri.scheme !== 'file' || fs.existsSync(edit.uri.fsPath);
+    const document = exists
+      ? await vscode.workspace.openTextDocument(edit.uri)
+      : undefined;
+    const version = document?.version;
+
+    // Build the full proposed document so the diff shows the change in place
+    const original = document?.getText() ?? '';
+    const range = document ? edit.range ?? this.getFullRange(document) : undefined;
+    let newText = edit.newText;
+    if (document && !edit.range && original.endsWith('\n') && !newText.endsWith('\n')) {
+      // Keep the file's trailing newline when replacing all of it
+      newText += '\n';
+    }
+    const proposed = document && range
+      ? original.substring(0, document.offsetAt(range.start)) + newText + original.substring(document.offsetAt(range.end))
+      : newText;
+
+    const proposedUri = this.createVirtualUri(fileName, proposed);
+    const originalUri = document ? document.uri : this.createVirtualUri(fileName, '');
+
+    try {
+      await vscode.commands.executeCommand(
+        'vscode.diff',
+        originalUri,
+        proposedUri,
+        `${fileName} ↔ ${title} (proposed)`,
+        { preview: true }
+      );
+
+      const choice = await vscode.window.showInformationMessage(
+        document
+          ? `Apply the proposed ${title.toLowerCase()} to ${fileName}?`
+          : `Create ${fileName} with the proposed ${title.toLowerCase()}?`,
+        'Apply',
+        'Discard'
+      );
+      if (choice !== 'Apply') {
+        return false;
+      }
+
+      if (document && document.version !== version) {
+        vscode.window.showWarningMessage(`${fileName} changed while the diff was open. The proposed change was not applied.`);
+        return false;
+      }
+
+      const workspaceEdit = new vscode.WorkspaceEdit();
+      if (document && range) {
+        workspaceEdit.replace(document.uri, range, newText);
+      } else {
+        workspaceEdit.createFile(edit.uri, { ignoreIfExists: false });
+        workspaceEdit.insert(edit.uri, new vscode.Position(0, 0), newText);
+      }
+      const applied = await vscode.workspace.applyEdit(workspaceEdit);
+      if (!applied) {
+        vscode.window.showErrorMessage(`Failed to apply the proposed change to ${fileName}`);
+      } else if (!document) {
+        await vscode.window.showTextDocument(edit.uri);
+      }
+      return applied;
+    } finally {
+      await this.closeDiff(proposedUri);
+      this.contentProvider.delete(proposedUri);
+      if (!document) {
+        this.contentProvider.delete(originalUri);
+      }
+    }
+  }
+
+  /**
+   * Show a read-only diff of a file against proposed content, without offering to apply it
+   */
+  async showDiff(uri: vscode.Uri, proposed: string, title: string): Promise<void> {
+    const fileName = path.basename(uri.fsPath);
+    const exists = uri.scheme !== 'file' || fs.existsSync(uri.fsPath);
+
+    const previous = this.previews.get(uri.toString());
+    if (previous) {
+      this.contentProvider.delete(previous);
+    }
+    const proposedUri = this.createVirtualUri(fileName, proposed);
+    this.previews.set(uri.toString(), proposedUri);
+
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      exists ? uri : this.createVirtualUri(fileName, ''),
+      proposedUri,
+      `${fileName} ↔ ${title}`,
+      { preview: true }
+    );
+  }
+
+  /**
+   * Register virtual content under a unique URI that keeps the file name (and so the language)
+   */
+  private createVirtualUri(fileName: string, content: string): vscode.Uri {
+    const uri = vscode.Uri.from({
+      scheme: PROPOSED_SCHEME,
+      path: `/${fileName}`,
+      query: uuidv4()
+    });
+    this.contentProvider.set(uri, content);
+    return uri;
+  }
+
+  private getFullRange(document: vscode.TextDocument): vscode.Range {
+    return new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length));
+  }
+
+  /**
+   * Close the diff editor showing the given proposed document
+   */
+  private async closeDiff(proposedUri: vscode.Uri): Promise<void> {
+    const tabs = vscode.window.tabGroups.all
+      .flatMap(group => group.tabs)
+      .filter(tab =>
+        tab.input instanceof vscode.TabInputTextDiff &&
+        tab.input.modified.toString() === proposedUri.toString()
+      );
+    try {
+      await vscode.window.tabGroups.close(tabs);
+    } catch (error) {
+      log.debug(`Failed to close diff editor: ${error}`);
+    }
+  }
+
+  dispose(): void {
+    this.registration.dispose();
+  }
+}
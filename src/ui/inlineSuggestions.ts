@@ -1,12 +1,70 @@
 import * as vscode from 'vscode';
+import * as crypto from 'crypto';
 import axios from 'axios';
 import { ModelManager } from '../models/modelManager';
 import { ContextManager } from '../context/contextManager';
-import { ConfigurationManager } from '../config/configuration';
+import { ConfigurationManager, FimTemplateSetting } from '../config/configuration';
 import { PROMPTS } from '../config/constants';
+import { InlineCompletionState, ModelRequestOptions, ModelTarget, SuggestionEvent } from '../models/interfaces';
+import { findFimTemplate, getFimTemplate } from '../models/fimTemplates';
 import { handleError } from '../utils/errorHandler';
+import { LRUCache } from '../utils/lruCache';
+import {
+  CompletionMode,
+  decideCompletionMode,
+  getNextLine,
+  getNextWord,
+  postProcessCompletion
+} from '../utils/textProcessing';
 import { log } from '../utils/logging';
 
+// Number of completions kept for recently seen cursor contexts
+const COMPLETION_CACHE_SIZE = 100;
+// How long a request whose keystroke was superseded waits for the next keystroke to reuse it
+const ABORT_GRACE_PERIOD_MS = 250;
+// Token budget and additional stop sequences for each completion mode.
+// Single-line completions are cut to one line afterwards, since at the end of a line
+// the model usually starts with a line break; only mid-line completions stop at one.
+const COMPLETION_LIMITS: Record<CompletionMode, { maxTokens: number; stopSequences: string[] }> = {
+  'single-line': { maxTokens: 64, stopSequences: [] },
+  'multi-line': { maxTokens: 256, stopSequences: ['\n\n\n'] }
+};
+
+/**
+ * A processed completion and the model that generated it
+ */
+interface Completion {
+  text: string;
+  model: string;
+}
+
+/**
+ * A running or finished completion request. The next keystrokes reuse its result
+ * as long as the typed characters match the suggestion.
+ */
+interface CompletionRequest {
+  documentUri: string;
+  /** Document offset of the cursor when the request was made */
+  offset: number;
+  prefix: string;
+  suffix: string;
+  completion: Promise<Completion>;
+  source: vscode.CancellationTokenSource;
+  abortTimer?: NodeJS.Timeout;
+}
+
+/**
+ * The suggestion currently shown as ghost text
+ */
+interface ShownSuggestion {
+  documentUri: string;
+  languageId: string;
+  model: string;
+  /** Document offset the suggestion is inserted at */
+  offset: number;
+  text: string;
+}
+
 export class InlineSuggestionProvider implements vscode.InlineCompletionItemProvider {
   // Configuration properties
   private enabled!: boolean;
@@ -15,8 +73,23 @@ export class InlineSuggestionProvider implements vscode.InlineCompletionItemProv
   private temperature!: number;
   private promptWindowSize!: number;
   private completionTriggerChars!: string[];
+  private excludePatterns!: string[];
   private showPreview!: boolean;
   private continueInline!: boolean;
+  private fimTemplate!: FimTemplateSetting;
+  private stopSequences!: string[];
+
+  private completionCache = new LRUCache<string, Completion>(COMPLETION_CACHE_SIZE);
+  private activeRequest: CompletionRequest | undefined;
+  private shownSuggestion: ShownSuggestion | undefined;
+
+  // Shown, accepted and dismissed suggestions, for the local metrics
+  private readonly _onSuggestionEvent = new vscode.EventEmitter<SuggestionEvent>();
+  readonly onSuggestionEvent = this._onSuggestionEvent.event;
+
+  // Ghost-text requests run in the background and report their state here instead of notifications
+  private readonly _onCompletionStateChanged = new vscode.EventEmitter<InlineCompletionState>();
+  readonly onCompletionStateChanged = this._onCompletionStateChanged.event;
 
   constructor(
     private modelManager: ModelManager,
@@ -34,9 +107,15 @@ export class InlineSuggestionProvider implements vscode.InlineCompletionItemProv
     this.temperature = config.temperature;
     this.promptWindowSize = config.maxContextLength;
     this.completionTriggerChars = this.configManager.getCompletionTriggerCharacters();
+    this.excludePatterns = config.inlineSuggestionExclude;
+    this.fimTemplate = config.fimTemplate;
+    this.stopSequences = config.inlineCompletionStop;
+    // Cached completions may come from another model or prompt format
+    this.completionCache.setTTL(config.cacheTTL * 1000);
+    this.completionCache.clear();
     // Additional settings similar to the provided code
     this.showPreview = true; // Default to true, you can make this configurable
-    this.continueInline = true; // Default to true, you can make this configurable
+    this.continueInline = config.continueInlineOnAccept;
     log.info('Inline Suggestion Provider configuration refreshed');
   }
 
@@ -51,21 +130,16 @@ export class InlineSuggestionProvider implements vscode.InlineCompletionItemProv
       return null;
     }
 
-    try {
-      // Apply configurable delay to reduce unnecessary requests while typing
-      if (this.previewDelay > 0) {
-        await new Promise(resolve => setTimeout(resolve, this.previewDelay * 1000));
-      }
+    if (!this.isEnabledForDocument(document)) {
+      return null;
+    }
 
-      if (token.isCancellationRequested) {
-        return null;
-      }
+    try {
+      // Get the code around the cursor position
+      const surrounding = this.getSurroundingCode(document, position);
 
-      // Get current code until cursor position
-      const prefix = document.getText(new vscode.Range(0, 0, position.line, position.character));
-      
       // Skip if the prefix is too short or doesn't make sense to complete
-      if (prefix.trim().length < 3) {
+      if (surrounding.prefix.trim().length < 3) {
         return null;
       }
 
@@ -77,48 +151,435 @@ export class InlineSuggestionProvider implements vscode.InlineCompletionItemProv
 
       // If showing preview, get a short completion to display
       if (this.showPreview) {
-        // Get current code context
-        const context = await this.contextManager.getFullContext(document, position);
-        
-        // Format the prompt for code completion
-        const prompt = PROMPTS.CODE_COMPLETION
-          .replace('{FILE_NAME}', document.fileName)
-          .replace('{LANGUAGE}', document.languageId)
-          .replace('{PROJECT_NAME}', vscode.workspace.name || 'Untitled')
-          .replace('{CONTEXT}', context)
-          .replace('{CODE}', prefix);
-
         // Get a short completion for preview
-        const completion = await this.modelManager.getCompletion(prompt, {
-          maxTokens: 100,
-          temperature: this.temperature,
-          stopSequences: ['```'] // Stop at code block boundaries
-        });
+        const completion = await this.getPreviewCompletion(
+          document,
+          position,
+          surrounding,
+          context.triggerKind === vscode.InlineCompletionTriggerKind.Invoke,
+          token
+        );
 
-        if (!completion || token.isCancellationRequested) {
+        if (token.isCancellationRequested) {
+          return null;
+        }
+        if (!completion?.text) {
+          this.setShownSuggestion(undefined);
           return null;
         }
 
         // Update the item with the preview
-        item.insertText = completion;
-
-        // Set a command to execute when the completion is accepted
-        if (this.continueInline) {
-          item.command = {
-            command: 'logcai.getInlineCompletion',
-            title: 'Continue Completion',
-            arguments: [document, position, token]
-          };
-        }
+        item.insertText = completion.text;
+        this.setShownSuggestion({
+          documentUri: document.uri.toString(),
+          languageId: document.languageId,
+          model: completion.model,
+          offset: surrounding.offset,
+          text: completion.text
+        });
+
+        // Record the acceptance and continue from the new cursor position
+        item.command = {
+          command: 'logcai.inlineSuggestionAccepted',
+          title: 'Inline Suggestion Accepted',
+          arguments: [this.shownSuggestion]
+        };
       }
 
       return [item];
     } catch (error) {
-      handleError(error as Error, 'Failed to provide inline completion');
+      const errorMsg = (error as Error).message;
+      log.warn(`Failed to provide inline completion: ${errorMsg}`);
+      this._onCompletionStateChanged.fire({ status: 'error', error: errorMsg });
       return null;
     }
   }
 
+  /**
+   * Called when a suggestion is accepted in full
+   */
+  async handleSuggestionAccepted(suggestion: ShownSuggestion): Promise<void> {
+    this.shownSuggestion = undefined;
+    this.recordAcceptance(suggestion, 'full', suggestion.text.length);
+
+    if (this.continueInline) {
+      // Ask for the next suggestion at the new cursor position
+      await vscode.commands.executeCommand('editor.action.inlineSuggest.trigger');
+    }
+  }
+
+  /**
+   * Accept the next word or line of the suggestion shown at the cursor.
+   * Suggestions from other providers are passed on to VS Code's own partial accept.
+   */
+  async acceptPartialSuggestion(textEditor: vscode.TextEditor, kind: 'word' | 'line'): Promise<void> {
+    const suggestion = this.shownSuggestion;
+    const position = textEditor.selection.active;
+    if (
+      !suggestion ||
+      suggestion.documentUri !== textEditor.document.uri.toString() ||
+      suggestion.offset !== textEditor.document.offsetAt(position)
+    ) {
+      await vscode.commands.executeCommand(
+        kind === 'word' ? 'editor.action.inlineSuggest.acceptNextWord' : 'editor.action.inlineSuggest.acceptNextLine'
+      );
+      return;
+    }
+
+    const accepted = kind === 'word' ? getNextWord(suggestion.text) : getNextLine(suggestion.text);
+    const applied = await textEditor.edit(editBuilder => editBuilder.insert(position, accepted));
+    if (!applied) {
+      return;
+    }
+    this.recordAcceptance(suggestion, kind, accepted.length);
+
+    const remaining = suggestion.text.substring(accepted.length);
+    this.shownSuggestion = remaining
+      ? { ...suggestion, offset: suggestion.offset + accepted.length, text: remaining }
+      : undefined;
+    // Show the rest of the suggestion, which is reused from the request instead of generated again
+    await vscode.commands.executeCommand('editor.action.inlineSuggest.trigger');
+  }
+
+  private recordAcceptance(suggestion: ShownSuggestion, kind: SuggestionEvent['kind'], characters: number): void {
+    log.debug(`Accepted ${kind === 'full' ? 'suggestion' : kind} (${characters} chars)`);
+    this._onSuggestionEvent.fire({
+      type: 'accepted',
+      languageId: suggestion.languageId,
+      model: suggestion.model,
+      kind,
+      characters
+    });
+  }
+
+  /**
+   * Track the suggestion shown as ghost text. A suggestion that is replaced by another one
+   * without being accepted counts as dismissed; the rest of a suggestion after typing through
+   * it or accepting part of it is the same suggestion.
+   */
+  private setShownSuggestion(next: ShownSuggestion | undefined): void {
+    const previous = this.shownSuggestion;
+    const continued = previous !== undefined && next !== undefined &&
+      previous.documentUri === next.documentUri &&
+      next.offset >= previous.offset &&
+      previous.text.length - next.text.length === next.offset - previous.offset &&
+      previous.text.endsWith(next.text);
+
+    if (previous && !continued) {
+      this._onSuggestionEvent.fire({ type: 'dismissed', languageId: previous.languageId, model: previous.model });
+    }
+    if (next && !continued) {
+      this._onSuggestionEvent.fire({ type: 'shown', languageId: next.languageId, model: next.model });
+    }
+    this.shownSuggestion = next;
+  }
+
+  /**
+   * Get a completion from the cache, from the request of an earlier keystroke, or from the model
+   * @param explicit The user asked for a suggestion, so trigger characters and the typing delay are skipped
+   */
+  private async getPreviewCompletion(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    surrounding: { prefix: string; suffix: string; offset: number },
+    explicit: boolean,
+    token: vscode.CancellationToken
+  ): Promise<Completion | undefined> {
+    const cacheKey = this.getCacheKey(surrounding.prefix, surrounding.suffix);
+    const cached = this.completionCache.get(cacheKey);
+    if (cached) {
+      log.debug('Using cached inline completion');
+      return cached;
+    }
+
+    const reused = await this.reuseActiveRequest(document, surrounding, token);
+    if (reused) {
+      return reused;
+    }
+
+    // The typed text no longer matches the pending suggestion
+    this.abortActiveRequest();
+
+    if (!explicit && !this.isTriggerPosition(surrounding.prefix)) {
+      return undefined;
+    }
+
+    // Apply configurable delay to reduce unnecessary requests while typing
+    if (!explicit && this.previewDelay > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.previewDelay * 1000));
+    }
+
+    if (token.isCancellationRequested) {
+      return undefined;
+    }
+
+    const source = new vscode.CancellationTokenSource();
+    const request: CompletionRequest = {
+      documentUri: document.uri.toString(),
+      ...surrounding,
+      source,
+      completion: this.fetchCompletion(document, position, surrounding, cacheKey, source)
+    };
+    this.activeRequest = request;
+    this.abortWhenCancelled(request, token);
+
+    return request.completion;
+  }
+
+  /**
+   * Request a completion from the model in the background and cache the result
+   */
+  private async fetchCompletion(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    surrounding: { prefix: string; suffix: string },
+    cacheKey: string,
+    source: vscode.CancellationTokenSource
+  ): Promise<Completion> {
+    this._onCompletionStateChanged.fire({ status: 'loading' });
+    const mode = this.getCompletionMode(document, surrounding);
+    const limits = COMPLETION_LIMITS[mode];
+    const maxTokens = Math.min(
+      limits.maxTokens,
+      this.modelManager.getRoleAssignment('completion').options.maxTokens ?? this.maxTokens
+    );
+    const midLine = /\S/.test(surrounding.suffix.split('\n')[0]);
+    // The prompt is built for each provider tried, so the last target is the one that answered
+    let answeredBy: ModelTarget | undefined;
+    const startTime = Date.now();
+    const response = await this.modelManager.getCompletion(
+      async target => {
+        answeredBy = target;
+        const { prompt, options } = await this.buildCompletionRequest(document, position, surrounding, maxTokens, target);
+        const stopSequences = [...(options.stopSequences ?? []), ...limits.stopSequences, ...(midLine ? ['\n'] : [])];
+        return { prompt, options: { ...options, stopSequences } };
+      },
+      { silent: true },
+      source.token
+    );
+    const model = answeredBy?.model ?? this.modelManager.getRoleAssignment('completion').model;
+    if (!source.token.isCancellationRequested) {
+      this._onSuggestionEvent.fire({
+        type: 'completed',
+        languageId: document.languageId,
+        model,
+        latencyMs: Date.now() - startTime
+      });
+    }
+    const completion = { text: postProcessCompletion(response, { ...surrounding, mode }), model };
+
+    // A superseded request must not clear the loading state of the one that replaced it
+    if (!this.activeRequest || this.activeRequest.source === source) {
+      this._onCompletionStateChanged.fire({ status: 'idle' });
+    }
+    // A cancelled request returns an empty or partial response, which must not be cached
+    if (completion.text && !source.token.isCancellationRequested) {
+      this.completionCache.set(cacheKey, completion);
+    }
+    return completion;
+  }
+
+  /**
+   * Check the language and file exclusion settings for a document
+   */
+  private isEnabledForDocument(document: vscode.TextDocument): boolean {
+    if (!this.configManager.isInlineSuggestionEnabledForLanguage(document.languageId)) {
+      log.debug(`Inline suggestions are disabled for ${document.languageId}`);
+      return false;
+    }
+
+    const excluded = this.excludePatterns.find(pattern => vscode.languages.match({ pattern }, document) > 0);
+    if (excluded) {
+      log.debug(`Inline suggestions are disabled for ${document.fileName} (excluded by ${excluded})`);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Automatic requests start only after a trigger character or at the start of a new line;
+   * while typing other characters, suggestions come from the cache or the pending request
+   */
+  private isTriggerPosition(prefix: string): boolean {
+    if (this.completionTriggerChars.length === 0) {
+      return true;
+    }
+    const linePrefix = prefix.substring(prefix.lastIndexOf('\n') + 1);
+    return linePrefix.trim() === '' || this.completionTriggerChars.includes(prefix.charAt(prefix.length - 1));
+  }
+
+  /**
+   * Get the completion mode configured for the document's language, or decide it from the cursor position
+   */
+  private getCompletionMode(
+    document: vscode.TextDocument,
+    surrounding: { prefix: string; suffix: string }
+  ): CompletionMode {
+    const setting = this.configManager.getCompletionMode(document.languageId);
+    const mode = setting === 'auto' ? decideCompletionMode(surrounding.prefix, surrounding.suffix) : setting;
+    log.debug(`Inline completion mode for ${document.languageId}: ${mode}${setting === 'auto' ? ' (auto)' : ''}`);
+    return mode;
+  }
+
+  /**
+   * Reuse the result of the active request if the user typed characters that match its suggestion
+   * @returns The rest of the suggestion, or undefined if the request cannot be reused
+   */
+  private async reuseActiveRequest(
+    document: vscode.TextDocument,
+    surrounding: { prefix: string; suffix: string; offset: number },
+    token: vscode.CancellationToken
+  ): Promise<Completion | undefined> {
+    const request = this.activeRequest;
+    if (!request || request.documentUri !== document.uri.toString() || request.suffix !== surrounding.suffix) {
+      return undefined;
+    }
+
+    // Compare by offset, since the prefix window slides as the user types
+    const typedLength = surrounding.offset - request.offset;
+    if (typedLength <= 0 || typedLength > surrounding.prefix.length) {
+      return undefined;
+    }
+    const typed = surrounding.prefix.substring(surrounding.prefix.length - typedLength);
+    if (!(request.prefix + typed).endsWith(surrounding.prefix)) {
+      return undefined;
+    }
+
+    // This keystroke takes over the request, so it is no longer superseded
+    clearTimeout(request.abortTimer);
+    request.abortTimer = undefined;
+    this.abortWhenCancelled(request, token);
+
+    const completion = await request.completion;
+    if (!completion.text.startsWith(typed) || completion.text.length === typed.length) {
+      return undefined;
+    }
+    log.debug(`Reusing inline completion after ${typedLength} typed characters`);
+    return { ...completion, text: completion.text.substring(typed.length) };
+  }
+
+  /**
+   * Abort a request once the keystroke that is waiting for it is cancelled,
+   * unless the next keystroke reuses it within the grace period
+   */
+  private abortWhenCancelled(request: CompletionRequest, token: vscode.CancellationToken): void {
+    token.onCancellationRequested(() => {
+      clearTimeout(request.abortTimer);
+      request.abortTimer = setTimeout(() => {
+        request.source.cancel();
+        if (this.activeRequest === request) {
+          this.activeRequest = undefined;
+        }
+      }, ABORT_GRACE_PERIOD_MS);
+    });
+  }
+
+  private abortActiveRequest(): void {
+    const request = this.activeRequest;
+    if (!request) {
+      return;
+    }
+    clearTimeout(request.abortTimer);
+    request.source.cancel();
+    this.activeRequest = undefined;
+  }
+
+  /**
+   * Cache key for a cursor context with the current completion model
+   */
+  private getCacheKey(prefix: string, suffix: string): string {
+    const { providerId, model } = this.modelManager.getRoleAssignment('completion');
+    return crypto.createHash('sha256')
+      .update(`${providerId}:${model}\0`)
+      .update(prefix.replace(/\r\n/g, '\n'))
+      .update('\0')
+      .update(suffix.replace(/\r\n/g, '\n').trimEnd())
+      .digest('hex');
+  }
+
+  /**
+   * Get the code before and after the cursor, limited to the prompt window
+   */
+  private getSurroundingCode(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): { prefix: string; suffix: string; offset: number } {
+    const text = document.getText();
+    const offset = document.offsetAt(position);
+    // Give most of the window to the code before the cursor
+    const prefixWindow = Math.floor(this.promptWindowSize * 0.75);
+    return {
+      prefix: text.substring(Math.max(0, offset - prefixWindow), offset),
+      suffix: text.substring(offset, offset + this.promptWindowSize - prefixWindow),
+      offset
+    };
+  }
+
+  /**
+   * Build the completion request for a cursor position and the provider and model it is sent to.
+   * Uses fill-in-the-middle with the code after the cursor when the model supports it,
+   * and an instruction prompt otherwise.
+   */
+  private async buildCompletionRequest(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    surrounding: { prefix: string; suffix: string },
+    maxTokens: number,
+    target: ModelTarget
+  ): Promise<{ prompt: string; options: ModelRequestOptions }> {
+    const { prefix, suffix } = surrounding;
+    // Inline completions may use a smaller, faster model than chat
+    const assignment = this.modelManager.getRoleAssignment('completion');
+    const options: ModelRequestOptions = {
+      maxTokens,
+      temperature: assignment.options.temperature ?? this.temperature,
+      stopSequences: this.stopSequences
+    };
+
+    // FIM formats are raw prompts, which only Ollama's /api/generate accepts
+    if (target.providerId === 'ollama') {
+      if (this.fimTemplate === 'ollama-suffix') {
+        return { prompt: prefix, options: { ...options, suffix } };
+      }
+
+      const template = this.fimTemplate === 'auto'
+        ? findFimTemplate(target.model)
+        : getFimTemplate(this.fimTemplate);
+      if (template) {
+        log.debug(`Using ${template.id} FIM template for inline completion`);
+        return {
+          prompt: template.build(prefix, suffix),
+          options: {
+            ...options,
+            raw: true,
+            stopSequences: [...template.stopSequences, ...this.stopSequences]
+          }
+        };
+      }
+
+      // The model's own template handles the suffix when Ollama reports fill-in-the-middle support;
+      // the capabilities are only known for the role's own model
+      const isRoleModel = assignment.providerId === 'ollama' && target.model === assignment.model;
+      if (this.fimTemplate === 'auto' && isRoleModel && (await this.modelManager.getModelCapabilities('completion')).supportsFim) {
+        return { prompt: prefix, options: { ...options, suffix } };
+      }
+    }
+
+    // Get current code context
+    const context = await this.contextManager.getFullContext(document, position);
+
+    // Use replacer functions so "$" sequences in the code are not treated as patterns
+    const prompt = PROMPTS.CODE_COMPLETION
+      .replace('{FILE_NAME}', () => document.fileName)
+      .replace('{LANGUAGE}', () => document.languageId)
+      .replace('{PROJECT_NAME}', () => vscode.workspace.name || 'Untitled')
+      .replace('{CONTEXT}', () => context)
+      .replace('{CODE}', () => prefix)
+      .replace('{SUFFIX}', () => suffix);
+
+    return { prompt, options };
+  }
+
   /**
    * Manually trigger inline completion (for the command)
    */
@@ -142,28 +603,17 @@ export class InlineSuggestionProvider implements vscode.InlineCompletionItemProv
         async (progress, token) => {
           try {
             progress.report({ message: 'Analyzing context...' });
-            // Get current code context
-            const context = await this.contextManager.getFullContext(document, position);
-            
-            // Get current code until cursor position
-            const prefix = document.getText(new vscode.Range(0, 0, position.line, position.character));
-            
-            // Format the prompt for code completion
-            const prompt = PROMPTS.CODE_COMPLETION
-              .replace('{FILE_NAME}', document.fileName)
-              .replace('{LANGUAGE}', document.languageId)
-              .replace('{PROJECT_NAME}', vscode.workspace.name || 'Untitled')
-              .replace('{CONTEXT}', context)
-              .replace('{CODE}', prefix);
+            const surrounding = this.getSurroundingCode(document, position);
+            const maxTokens = this.modelManager.getRoleAssignment('completion').options.maxTokens ?? this.maxTokens;
             
             progress.report({ message: 'Generating code...' });
             
             // Track current position for streaming
             let currentPosition = position;
             
-            // Stream the completion
+            // Stream the completion, with the prompt built from the code around the cursor for each provider tried
             await this.modelManager.streamCompletion(
-              prompt,
+              target => this.buildCompletionRequest(document, position, surrounding, maxTokens, target),
               async (text, final) => {
                 if (token.isCancellationRequested) {
                   return;
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import { ModelManager } from '../models/modelManager';
 import { ConfigurationManager } from '../config/configuration';
+import { ModelRole } from '../models/interfaces';
 import { log } from '../utils/logging';
 
 /**
@@ -18,7 +19,7 @@ export class ModelManagerUI {
   async selectModelProvider(): Promise<void> {
     const providers = [
       { label: 'Ollama', description: 'Local LLM provider', id: 'ollama' },
-      { label: 'OpenAI', description: 'Cloud-based AI models', id: 'openai' },
+      { label: 'OpenAI', description: 'Cloud-based AI models or any OpenAI-compatible server', id: 'openai' },
       { label: 'Anthropic', description: 'Claude AI models', id: 'anthropic' }
     ];
 
@@ -29,6 +30,14 @@ export class ModelManagerUI {
 
     if (selected) {
       await this.configManager.updateSetting('modelProvider', selected.id);
+      
+      // Cloud providers need an API key before they can connect
+      if (selected.id === 'openai' && !(await this.configManager.getOpenAIApiKey())) {
+        await this.promptApiKey('openai');
+      } else if (selected.id === 'anthropic' && !(await this.configManager.getAnthropicApiKey())) {
+        await this.promptApiKey('anthropic');
+      }
+      
       await this.modelManager.refreshConfiguration();
       vscode.window.showInformationMessage(`LogCAI: Switched to ${selected.label} provider`);
       
@@ -39,6 +48,95 @@ export class ModelManagerUI {
     }
   }
 
+  /**
+   * Prompt the user for a cloud provider API key and store it securely
+   */
+  async promptApiKey(providerId: 'openai' | 'anthropic'): Promise<void> {
+    const isOpenAI = providerId === 'openai';
+    const providerName = isOpenAI ? 'OpenAI' : 'Anthropic';
+    
+    const apiKey = await vscode.window.showInputBox({
+      prompt: isOpenAI
+        ? 'Enter your OpenAI API key (leave empty for local OpenAI-compatible servers)'
+        : 'Enter your Anthropic API key',
+      placeHolder: isOpenAI ? 'sk-...' : 'sk-ant-...',
+      password: true,
+      ignoreFocusOut: true,
+      title: `LogCAI: Set ${providerName} API Key`
+    });
+    
+    if (apiKey === undefined) {
+      return;
+    }
+    
+    if (isOpenAI) {
+      await this.configManager.setOpenAIApiKey(apiKey.trim());
+    } else {
+      await this.configManager.setAnthropicApiKey(apiKey.trim());
+    }
+    await this.modelManager.refreshConfiguration();
+    vscode.window.showInformationMessage(`LogCAI: ${providerName} API key saved`);
+  }
+
+  /**
+   * Prompt for how to authenticate with the Ollama server and store the token or password securely
+   */
+  async promptOllamaCredentials(): Promise<void> {
+    const config = this.configManager.getConfiguration();
+    const authTypes: (vscode.QuickPickItem & { id: 'none' | 'bearer' | 'basic' })[] = [
+      { id: 'bearer', label: 'Bearer Token', description: 'Sends "Authorization: Bearer <token>"' },
+      { id: 'basic', label: 'Basic Authentication', description: 'Sends a user name and password' },
+      { id: 'none', label: 'None', description: 'Removes the stored credential' }
+    ];
+    authTypes.forEach(item => {
+      item.picked = item.id === config.ollamaAuthType;
+    });
+
+    const selected = await vscode.window.showQuickPick(authTypes, {
+      placeHolder: `Authentication for ${config.ollamaEndpoint} (current: ${config.ollamaAuthType})`,
+      title: 'LogCAI: Set Ollama Credentials'
+    });
+    if (!selected) {
+      return;
+    }
+
+    if (selected.id === 'none') {
+      await this.configManager.deleteOllamaCredential();
+      await this.configManager.updateSetting('ollamaAuthType', 'none');
+      await this.modelManager.refreshConfiguration();
+      vscode.window.showInformationMessage('LogCAI: Ollama credentials removed');
+      return;
+    }
+
+    if (selected.id === 'basic') {
+      const username = await vscode.window.showInputBox({
+        prompt: 'Enter the user name for the Ollama server',
+        value: config.ollamaUsername,
+        ignoreFocusOut: true,
+        title: 'LogCAI: Set Ollama Credentials'
+      });
+      if (username === undefined) {
+        return;
+      }
+      await this.configManager.updateSetting('ollamaUsername', username.trim());
+    }
+
+    const credential = await vscode.window.showInputBox({
+      prompt: selected.id === 'bearer' ? 'Enter the bearer token for the Ollama server' : 'Enter the password',
+      password: true,
+      ignoreFocusOut: true,
+      title: 'LogCAI: Set Ollama Credentials'
+    });
+    if (credential === undefined) {
+      return;
+    }
+
+    await this.configManager.setOllamaCredential(credential.trim());
+    await this.configManager.updateSetting('ollamaAuthType', selected.id);
+    await this.modelManager.refreshConfiguration();
+    vscode.window.showInformationMessage('LogCAI: Ollama credentials saved');
+  }
+
   /**
    * Show UI to select an Ollama model
    */
@@ -81,6 +179,132 @@ export class ModelManagerUI {
     }
   }
 
+  /**
+   * Use an installed Ollama model for chat or inline completion.
+   * The chat model is the main Ollama model unless the chat role has its own settings.
+   */
+  async setOllamaModelForRole(modelName: string, role: ModelRole): Promise<void> {
+    const config = this.configManager.getConfiguration();
+    const roleSettings = this.configManager.getModelRole(role);
+    
+    if (role === 'chat' && config.modelProvider === 'ollama' && !roleSettings.provider && !roleSettings.model) {
+      await this.configManager.updateSetting('ollamaModel', modelName);
+    } else {
+      await this.configManager.updateSetting('modelRoles', {
+        ...config.modelRoles,
+        [role]: { ...roleSettings, provider: 'ollama', model: modelName }
+      });
+    }
+    
+    await this.modelManager.refreshConfiguration();
+    vscode.window.showInformationMessage(`LogCAI: Using ${modelName} for ${role === 'chat' ? 'chat' : 'inline completion'}`);
+  }
+
+  /**
+   * Unload an Ollama model from memory; asks which one when no model is given
+   */
+  async unloadModel(modelName?: string): Promise<void> {
+    if (!modelName) {
+      const running = this.modelManager.getRunningOllamaModels();
+      if (running.length === 0) {
+        vscode.window.showInformationMessage('LogCAI: No Ollama models are loaded');
+        return;
+      }
+      const selected = await vscode.window.showQuickPick(
+        running.map(model => ({
+          label: model.name,
+          description: this.modelManager.formatBytes(model.size)
+        })),
+        { placeHolder: 'Select a model to unload', title: 'LogCAI: Unload Ollama Model' }
+      );
+      if (!selected) {
+        return;
+      }
+      modelName = selected.label;
+    }
+    
+    try {
+      await this.modelManager.unloadOllamaModel(modelName);
+      vscode.window.showInformationMessage(`LogCAI: Unloaded ${modelName}`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      log.error(`Failed to unload Ollama model: ${errorMsg}`);
+      vscode.window.showErrorMessage(`LogCAI: Failed to unload ${modelName}. ${errorMsg}`);
+    }
+  }
+
+  /**
+   * Delete an installed Ollama model after confirmation
+   * @returns Whether the model was deleted
+   */
+  async deleteOllamaModel(modelName: string): Promise<boolean> {
+    const confirmed = await vscode.window.showWarningMessage(
+      `Delete the Ollama model "${modelName}"? It has to be downloaded again to use it.`,
+      { modal: true },
+      'Delete'
+    );
+    if (confirmed !== 'Delete') {
+      return false;
+    }
+    
+    try {
+      await this.modelManager.deleteOllamaModel(modelName);
+      vscode.window.showInformationMessage(`LogCAI: Deleted ${modelName}`);
+      return true;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      log.error(`Failed to delete Ollama model: ${errorMsg}`);
+      vscode.window.showErrorMessage(`LogCAI: Failed to delete ${modelName}. ${errorMsg}`);
+      return false;
+    }
+  }
+
+  /**
+   * Copy an installed Ollama model to a new name, e.g. to customize its Modelfile
+   * @returns Whether the model was copied
+   */
+  async copyOllamaModel(modelName: string): Promise<boolean> {
+    const destination = await vscode.window.showInputBox({
+      prompt: `Name of the copy of ${modelName}`,
+      value: `${modelName.replace(/:.*$/, '')}-copy`,
+      title: 'LogCAI: Copy Ollama Model',
+      validateInput: value => value.trim() ? undefined : 'Enter a model name'
+    });
+    if (!destination) {
+      return false;
+    }
+    
+    try {
+      await this.modelManager.copyOllamaModel(modelName, destination.trim());
+      vscode.window.showInformationMessage(`LogCAI: Copied ${modelName} to ${destination.trim()}`);
+      return true;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      log.error(`Failed to copy Ollama model: ${errorMsg}`);
+      vscode.window.showErrorMessage(`LogCAI: Failed to copy ${modelName}. ${errorMsg}`);
+      return false;
+    }
+  }
+
+  /**
+   * Open the Modelfile of an installed Ollama model in an editor
+   */
+  async showModelfile(modelName: string): Promise<void> {
+    try {
+      const details = await this.modelManager.getOllamaModelDetails(modelName);
+      // Modelfiles use Dockerfile-like instructions
+      const document = await vscode.workspace.openTextDocument({
+        content: details.modelfile,
+        language: 'dockerfile'
+      });
+      await vscode.window.showTextDocument(document, { preview: true });
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      log.error(`Failed to show Modelfile: ${errorMsg}`);
+      vscode.window.showErrorMessage(`LogCAI: Failed to get the Modelfile of ${modelName}. ${errorMsg}`);
+    }
+  }
+
   /**
    * Prompt user to install a new Ollama model
    */
@@ -0,0 +1,131 @@
+import * as vscode from 'vscode';
+import { ModelManager, OllamaModel, OllamaModelDetails } from '../models/modelManager';
+import { log } from '../utils/logging';
+
+/**
+ * An installed Ollama model, or one of its details
+ */
+export class ModelTreeItem extends vscode.TreeItem {
+  constructor(
+    label: string,
+    collapsibleState: vscode.TreeItemCollapsibleState,
+    /** Name of the model the item belongs to */
+    readonly modelName?: string
+  ) {
+    super(label, collapsibleState);
+  }
+}
+
+/**
+ * Lists the installed Ollama models in the sidebar with their size, family,
+ * parameter count and quantization
+ */
+export class ModelsTreeProvider implements vscode.TreeDataProvider<ModelTreeItem>, vscode.Disposable {
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<ModelTreeItem | undefined>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  // /api/show is only called for the models that are expanded
+  private detailsCache: Map<string, OllamaModelDetails> = new Map();
+
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private readonly modelManager: ModelManager) {
+    // Show which models are loaded in memory
+    this.disposables.push(modelManager.onRunningModelsChanged(() => this._onDidChangeTreeData.fire(undefined)));
+  }
+
+  refresh(): void {
+    this.detailsCache.clear();
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  getTreeItem(element: ModelTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(element?: ModelTreeItem): Promise<ModelTreeItem[]> {
+    if (element?.modelName) {
+      return this.getDetailItems(element.modelName);
+    }
+
+    const models = await this.modelManager.getAvailableOllamaModels();
+    if (models.length === 0) {
+      const item = new ModelTreeItem('No Ollama models installed', vscode.TreeItemCollapsibleState.None);
+      item.command = { command: 'logcai.installOllamaModel', title: 'Install Ollama Model' };
+      item.iconPath = new vscode.ThemeIcon('cloud-download');
+      return [item];
+    }
+    return models.map(model => this.createModelItem(model));
+  }
+
+  private createModelItem(model: OllamaModel): ModelTreeItem {
+    const chat = this.modelManager.getRoleAssignment('chat');
+    const completion = this.modelManager.getRoleAssignment('completion');
+    const roles = [
+      chat.providerId === 'ollama' && chat.model === model.name ? 'chat' : undefined,
+      completion.providerId === 'ollama' && completion.model === model.name ? 'completion' : undefined
+    ].filter(role => role !== undefined);
+
+    const running = this.modelManager.getRunningOllamaModels().find(loaded => loaded.name === model.name);
+    const tooltip = [model.name, `Size: ${model.size}`];
+    if (model.modifiedAt) {
+      tooltip.push(`Modified: ${new Date(model.modifiedAt).toLocaleString()}`);
+    }
+    if (running) {
+      const vramShare = running.size > 0 ? Math.round((running.sizeVram / running.size) * 100) : 0;
+      tooltip.push(`Loaded: ${this.modelManager.formatBytes(running.size)} (${vramShare}% on GPU)`);
+      if (running.expiresAt) {
+        tooltip.push(`Unloads at: ${new Date(running.expiresAt).toLocaleString()}`);
+      }
+    }
+
+    const item = new ModelTreeItem(model.name, vscode.TreeItemCollapsibleState.Collapsed, model.name);
+    item.description = [
+      model.size,
+      ...roles,
+      running ? `loaded ${this.modelManager.formatBytes(running.size)}` : undefined
+    ].filter(part => part !== undefined).join(' · ');
+    item.tooltip = tooltip.join('\n');
+    item.iconPath = new vscode.ThemeIcon(running ? 'pulse' : roles.length > 0 ? 'star-full' : 'package');
+    // Loaded models can also be unloaded
+    item.contextValue = running ? 'ollamaModel.loaded' : 'ollamaModel';
+    return item;
+  }
+
+  private async getDetailItems(modelName: string): Promise<ModelTreeItem[]> {
+    try {
+      let details = this.detailsCache.get(modelName);
+      if (!details) {
+        details = await this.modelManager.getOllamaModelDetails(modelName);
+        this.detailsCache.set(modelName, details);
+      }
+
+      const rows: [string, string | number | undefined, string][] = [
+        ['Family', details.family, 'symbol-namespace'],
+        ['Parameters', details.parameterSize, 'symbol-numeric'],
+        ['Quantization', details.quantizationLevel, 'symbol-ruler'],
+        ['Format', details.format, 'file-binary'],
+        ['Context length', details.contextLength?.toLocaleString(), 'symbol-array'],
+        ['Capabilities', details.capabilities.join(', '), 'checklist']
+      ];
+      return rows
+        .filter(([, value]) => value !== undefined && value !== '')
+        .map(([label, value, icon]) => {
+          const item = new ModelTreeItem(label, vscode.TreeItemCollapsibleState.None);
+          item.description = String(value);
+          item.iconPath = new vscode.ThemeIcon(icon);
+          return item;
+        });
+    } catch (error) {
+      log.error(`Failed to get details of Ollama model ${modelName}: ${error}`);
+      const item = new ModelTreeItem('Details unavailable', vscode.TreeItemCollapsibleState.None);
+      item.iconPath = new vscode.ThemeIcon('warning');
+      return [item];
+    }
+  }
+
+  dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this._onDidChangeTreeData.dispose();
+  }
+}
@@ -0,0 +1,221 @@
+import * as vscode from 'vscode';
+import { MetricsStorage, MetricsSummary } from '../storage/metricsStorage';
+import { WEBVIEW } from '../config/constants';
+
+// Metrics change with almost every keystroke, so the panel is re-rendered at most this often
+const RENDER_DELAY_MS = 1000;
+
+/**
+ * Shows the local inline suggestion metrics, so models can be compared
+ */
+export class StatsPanel {
+  private static currentPanel: StatsPanel | undefined;
+  private readonly panel: vscode.WebviewPanel;
+  private disposables: vscode.Disposable[] = [];
+  private renderTimer: NodeJS.Timeout | undefined;
+
+  private constructor(private readonly metricsStorage: MetricsStorage) {
+    this.panel = vscode.window.createWebviewPanel(
+      WEBVIEW.STATS_PANEL_ID,
+      WEBVIEW.STATS_PANEL_TITLE,
+      vscode.ViewColumn.Active,
+      { enableScripts: true }
+    );
+    this.render();
+
+    this.panel.webview.onDidReceiveMessage(
+      async message => {
+        switch (message.command) {
+          case 'refresh':
+            this.render();
+            break;
+          case 'reset': {
+            const confirmed = await vscode.window.showWarningMessage(
+              'Delete all recorded inline suggestion metrics?',
+              { modal: true },
+              'Delete'
+            );
+            if (confirmed === 'Delete') {
+              this.metricsStorage.clear();
+            }
+            break;
+          }
+        }
+      },
+      null,
+      this.disposables
+    );
+
+    // Keep the numbers current while the panel is open
+    this.metricsStorage.onDidChange(() => this.scheduleRender(), null, this.disposables);
+    this.panel.onDidChangeViewState(() => this.panel.visible && this.render(), null, this.disposables);
+    this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+  }
+
+  public static createOrShow(metricsStorage: MetricsStorage): StatsPanel {
+    if (StatsPanel.currentPanel) {
+      StatsPanel.currentPanel.panel.reveal();
+      StatsPanel.currentPanel.render();
+      return StatsPanel.currentPanel;
+    }
+
+    StatsPanel.currentPanel = new StatsPanel(metricsStorage);
+    return StatsPanel.currentPanel;
+  }
+
+  /**
+   * Render after a delay, so that a burst of metrics changes causes a single render
+   */
+  private scheduleRender(): void {
+    if (this.renderTimer || !this.panel.visible) {
+      return;
+    }
+    this.renderTimer = setTimeout(() => {
+      this.renderTimer = undefined;
+      if (this.panel.visible) {
+        this.render();
+      }
+    }, RENDER_DELAY_MS);
+  }
+
+  private render(): void {
+    if (this.renderTimer) {
+      clearTimeout(this.renderTimer);
+      this.renderTimer = undefined;
+    }
+    this.panel.webview.html = this.getWebviewContent(
+      this.metricsStorage.getModelSummaries(),
+      this.metricsStorage.getLanguageSummaries()
+    );
+  }
+
+  private getWebviewContent(byModel: MetricsSummary[], byLanguage: MetricsSummary[]): string {
+    const content = byModel.length === 0
+      ? '<p class="empty">No inline suggestions recorded yet.</p>'
+      : `<h2>By model</h2>
+  ${this.renderTable(byModel, false)}
+  <h2>By model and language</h2>
+  ${this.renderTable(byLanguage, true)}`;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${WEBVIEW.STATS_PANEL_TITLE}</title>
+  <style>
+    body {
+      font-family: var(--vscode-font-family);
+      color: var(--vscode-foreground);
+      padding: 0 16px 16px;
+    }
+    table {
+      border-collapse: collapse;
+      width: 100%;
+      margin-bottom: 24px;
+    }
+    th, td {
+      text-align: right;
+      padding: 4px 8px;
+      border-bottom: 1px solid var(--vscode-panel-border);
+    }
+    th:first-child, td:first-child, .language {
+      text-align: left;
+    }
+    th {
+      font-weight: 600;
+    }
+    .actions button {
+      background-color: var(--vscode-button-secondaryBackground);
+      color: var(--vscode-button-secondaryForeground);
+      border: none;
+      padding: 4px 10px;
+      margin-right: 6px;
+      border-radius: 2px;
+      cursor: pointer;
+    }
+    .actions button:hover {
+      background-color: var(--vscode-button-secondaryHoverBackground);
+    }
+    .note, .empty {
+      color: var(--vscode-descriptionForeground);
+    }
+  </style>
+</head>
+<body>
+  <h1>Inline Suggestion Stats</h1>
+  <p class="note">Recorded locally and never sent anywhere. Latency is the model's response time for inline completions.</p>
+  <div class="actions">
+    <button id="refresh">Refresh</button>
+    <button id="reset">Reset</button>
+  </div>
+  ${content}
+  <script>
+    const vscode = acquireVsCodeApi();
+    document.getElementById('refresh').addEventListener('click', () => vscode.postMessage({ command: 'refresh' }));
+    document.getElementById('reset').addEventListener('click', () => vscode.postMessage({ command: 'reset' }));
+  </script>
+</body>
+</html>`;
+  }
+
+  private renderTable(summaries: MetricsSummary[], withLanguage: boolean): string {
+    const formatLatency = (value?: number) => value === undefined ? '–' : `${Math.round(value)} ms`;
+    const rows = summaries.map(summary => `
+      <tr>
+        <td>${escapeHtml(summary.model || 'unknown')}</td>
+        ${withLanguage ? `<td class="language">${escapeHtml(summary.languageId ?? '')}</td>` : ''}
+        <td>${summary.shown}</td>
+        <td>${summary.accepted}</td>
+        <td>${(summary.acceptanceRate * 100).toFixed(1)}%</td>
+        <td>${summary.partialAccepts}</td>
+        <td>${summary.dismissed}</td>
+        <td>${summary.charactersAccepted}</td>
+        <td>${formatLatency(summary.latencyP50)}</td>
+        <td>${formatLatency(summary.latencyP90)}</td>
+        <td>${formatLatency(summary.latencyP99)}</td>
+      </tr>`).join('');
+
+    return `<table>
+    <thead>
+      <tr>
+        <th>Model</th>
+        ${withLanguage ? '<th class="language">Language</th>' : ''}
+        <th>Shown</th>
+        <th>Accepted</th>
+        <th>Acceptance rate</th>
+        <th>Partial accepts</th>
+        <th>Dismissed</th>
+        <th>Characters accepted</th>
+        <th>p50</th>
+        <th>p90</th>
+        <th>p99</th>
+      </tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+  </table>`;
+  }
+
+  private dispose(): void {
+    StatsPanel.currentPanel = undefined;
+    if (this.renderTimer) {
+      clearTimeout(this.renderTimer);
+    }
+    this.panel.dispose();
+    while (this.disposables.length) {
+      const disposable = this.disposables.pop();
+      if (disposable) {
+        disposable.dispose();
+      }
+    }
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
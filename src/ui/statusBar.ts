@@ -1,12 +1,20 @@
 import * as vscode from 'vscode';
 import { ModelManager } from '../models/modelManager';
-import { ModelStatus } from '../models/interfaces';
+import { InlineCompletionState, ModelRole, ModelStatus } from '../models/interfaces';
 import { COMMANDS } from '../config/constants';
 import { log } from '../utils/logging';
 
+const ROLE_LABELS: Record<ModelRole, string> = {
+  chat: '$(comment-discussion) Chat',
+  completion: '$(lightbulb) Inline Completion',
+  embedding: '$(database) Embeddings',
+  summarization: '$(note) Summarization'
+};
+
 export class StatusBarManager {
   private statusBarItem: vscode.StatusBarItem;
   private disposables: vscode.Disposable[] = [];
+  private completionState: InlineCompletionState = { status: 'idle' };
 
   constructor(private modelManager: ModelManager) {
     // Create status bar item
@@ -32,18 +40,39 @@ export class StatusBarManager {
     
     // Listen for status changes
     modelManager.onStatusChanged(this.updateStatusBar.bind(this));
+    this.disposables.push(modelManager.onRunningModelsChanged(() => this.updateStatusBar(this.modelManager.status)));
     log.info('Status Bar Manager initialized');
   }
 
+  /**
+   * Show the state of background inline completion requests
+   */
+  setCompletionState(state: InlineCompletionState): void {
+    this.completionState = state;
+    this.updateStatusBar(this.modelManager.status);
+  }
+
   /**
    * Update the status bar with model information
    */
   private updateStatusBar(status: ModelStatus): void {
-    const { isAvailable, modelName, providerName } = status;
+    const { isAvailable, modelName, providerName, fallbackFrom } = status;
     
-    if (isAvailable) {
+    if (isAvailable && this.completionState.status === 'loading') {
+      this.statusBarItem.text = `$(sync~spin) LogCAI: ${providerName} (${modelName})`;
+      this.statusBarItem.tooltip = `Generating an inline completion with ${providerName} model "${modelName}"...`;
+      this.statusBarItem.backgroundColor = undefined;
+    } else if (isAvailable && this.completionState.status === 'error') {
+      this.statusBarItem.text = `$(alert) LogCAI: ${providerName} (${modelName})`;
+      this.statusBarItem.tooltip = `Inline completion failed: ${this.completionState.error}. Click to manage models.`;
+      this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+    } else if (isAvailable && fallbackFrom) {
+      this.statusBarItem.text = `$(debug-disconnect) LogCAI: ${providerName} (${modelName})`;
+      this.statusBarItem.tooltip = `${fallbackFrom} is unavailable, using the fallback ${providerName} model "${modelName}". Click to manage models.`;
+      this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+    } else if (isAvailable) {
       this.statusBarItem.text = `$(check) LogCAI: ${providerName} (${modelName})`;
-      this.statusBarItem.tooltip = `${providerName} model "${modelName}" is ready. Click to manage models.`;
+      this.statusBarItem.tooltip = `${providerName} model "${modelName}" is ready.${this.getRunningModelsText()} Click to manage models.`;
       this.statusBarItem.backgroundColor = undefined;
     } else {
       this.statusBarItem.text = `$(warning) LogCAI: Disconnected`;
@@ -52,6 +81,18 @@ export class StatusBarManager {
     }
   }
 
+  /**
+   * Describe the models loaded in Ollama's memory for the tooltip
+   */
+  private getRunningModelsText(): string {
+    const running = this.modelManager.getRunningOllamaModels();
+    if (running.length === 0) {
+      return '';
+    }
+    const models = running.map(model => `${model.name} (${this.modelManager.formatBytes(model.size)})`);
+    return `\nLoaded in Ollama: ${models.join(', ')}.\n`;
+  }
+
   /**
    * Show model management menu
    */
@@ -85,6 +126,11 @@ export class StatusBarManager {
           description: `Current: ${status.modelName}`,
           command: 'logcai.selectOllamaModel'
         },
+        {
+          label: '$(debug-stop) Unload Ollama Model',
+          description: 'Free the memory of a loaded model',
+          command: 'logcai.unloadModel'
+        },
         {
           label: '$(cloud-download) Install New Ollama Model',
           description: 'Download and install a new model',
@@ -93,6 +139,23 @@ export class StatusBarManager {
       );
     }
     
+    items.push({
+      label: '$(graph) Inline Suggestion Stats',
+      description: 'Acceptance rate and latency per model',
+      command: 'logcai.showStats'
+    });
+    
+    // Show which provider and model handles each role
+    for (const role of Object.keys(ROLE_LABELS) as ModelRole[]) {
+      const assignment = this.modelManager.getRoleAssignment(role);
+      items.push({
+        label: `${ROLE_LABELS[role]} Model`,
+        description: `${assignment.providerName}: ${assignment.model || 'default'}${assignment.isAvailable ? '' : ' (unavailable)'}`,
+        command: 'workbench.action.openSettings',
+        arguments: ['logcai.modelRoles']
+      });
+    }
+    
     // Add settings option
     items.push({
       label: '$(gear) Settings',
@@ -2,8 +2,18 @@ import * as vscode from 'vscode';
 import axios from 'axios';
 import { ConfigurationManager } from '../config/configuration';
 import { ModelManager } from '../models/modelManager';
+import { OllamaHttpClient } from '../models/providers/ollamaHttpClient';
 import { log } from './logging';
 
+// Errors from a server certificate that Node.js doesn't trust
+const CERTIFICATE_ERROR_CODES = [
+  'SELF_SIGNED_CERT_IN_CHAIN',
+  'DEPTH_ZERO_SELF_SIGNED_CERT',
+  'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+  'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+  'CERT_HAS_EXPIRED'
+];
+
 export class DiagnosticsService {
   constructor(
     private readonly configManager: ConfigurationManager,
@@ -34,6 +44,24 @@ export class DiagnosticsService {
     if (config.modelProvider === 'ollama') {
       channel.appendLine(`Ollama Endpoint: ${config.ollamaEndpoint}`);
       channel.appendLine(`Ollama Model: ${config.ollamaModel}`);
+      channel.appendLine(`Ollama Authentication: ${config.ollamaAuthType}`);
+      if (config.ollamaAuthType !== 'none') {
+        const credential = await this.configManager.getOllamaCredential();
+        channel.appendLine(`Ollama Credential: ${credential ? 'Set' : 'Not set'}`);
+      }
+      const headerNames = Object.keys(config.ollamaHeaders);
+      if (headerNames.length > 0) {
+        // Header values can hold secrets, so only list the names
+        channel.appendLine(`Ollama Headers: ${headerNames.join(', ')}`);
+      }
+      channel.appendLine(`Ollama Proxy: ${config.ollamaProxy ? this.redactProxy(config.ollamaProxy) : 'From environment'}`);
+      if (config.ollamaCaCertificates) {
+        channel.appendLine(`Ollama CA Certificates: ${config.ollamaCaCertificates}`);
+      }
+      if (config.ollamaAllowUntrustedCertificates) {
+        channel.appendLine('⚠️ Certificate verification is disabled for Ollama');
+      }
+      channel.appendLine(`Ollama Request Timeout: ${config.ollamaRequestTimeout > 0 ? `${config.ollamaRequestTimeout}s` : 'None'}`);
       
       // Test Ollama connection
       channel.appendLine('');
@@ -45,7 +73,7 @@ export class DiagnosticsService {
         channel.appendLine(`Testing connection to: ${baseUrl}`);
         
         try {
-          await axios.get(`${baseUrl}/api/tags`);
+          await new OllamaHttpClient(this.configManager).get(`${baseUrl}/api/tags`);
           channel.appendLine('✅ Successfully connected to Ollama API');
           
           // Get available models
@@ -78,6 +106,15 @@ export class DiagnosticsService {
               channel.appendLine('  - Connection refused: Ollama is not running or unreachable');
               channel.appendLine('  - Make sure Ollama is installed and running');
               channel.appendLine('  - Download Ollama from: https://ollama.com/download');
+            } else if (error.response?.status === 401 || error.response?.status === 403) {
+              channel.appendLine(`  - Status: ${error.response.status}`);
+              channel.appendLine('  - The server or its reverse proxy rejected the credentials');
+              channel.appendLine('  - Set them with the "LogCAI: Set Ollama Credentials" command');
+            } else if (error.code && CERTIFICATE_ERROR_CODES.includes(error.code)) {
+              channel.appendLine(`  - Certificate error: ${error.code}`);
+              channel.appendLine('  - Set logcai.ollamaCaCertificates to the CA bundle that signed the server certificate');
+            } else if (error.code === 'ECONNABORTED') {
+              channel.appendLine('  - The request timed out; check logcai.ollamaRequestTimeout and logcai.ollamaProxy');
             } else if (error.response) {
               channel.appendLine(`  - Status: ${error.response.status}`);
               channel.appendLine(`  - Data: ${JSON.stringify(error.response.data)}`);
@@ -92,6 +129,15 @@ export class DiagnosticsService {
         channel.appendLine(`❌ Invalid Ollama endpoint URL: ${config.ollamaEndpoint}`);
         channel.appendLine(`Error: ${error}`);
       }
+    } else if (config.modelProvider === 'openai') {
+      channel.appendLine(`OpenAI Base URL: ${config.openaiBaseUrl}`);
+      channel.appendLine(`OpenAI Model: ${config.openaiModel}`);
+      const apiKey = await this.configManager.getOpenAIApiKey();
+      channel.appendLine(`OpenAI API Key: ${apiKey ? 'Set' : 'Not set'}`);
+    } else if (config.modelProvider === 'anthropic') {
+      channel.appendLine(`Anthropic Model: ${config.anthropicModel}`);
+      const apiKey = await this.configManager.getAnthropicApiKey();
+      channel.appendLine(`Anthropic API Key: ${apiKey ? 'Set' : 'Not set'}`);
     }
     
     // Extension status
@@ -123,4 +169,19 @@ export class DiagnosticsService {
     channel.appendLine('');
     channel.appendLine('=== End of Diagnostics ===');
   }
+
+  /**
+   * Hide the password in a proxy URL
+   */
+  private redactProxy(proxyUrl: string): string {
+    try {
+      const url = new URL(proxyUrl);
+      if (url.password) {
+        url.password = '***';
+      }
+      return url.toString();
+    } catch (error) {
+      return proxyUrl;
+    }
+  }
 } 
\ No newline at end of file
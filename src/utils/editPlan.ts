@@ -0,0 +1,265 @@
+/**
+ * A single change to a file: replace the first occurrence of `search` with `replace`.
+ * An empty `search` appends to the file (or creates it).
+ */
+export interface EditHunk {
+  search: string;
+  replace: string;
+}
+
+/**
+ * All changes a model response proposes for one file
+ */
+export interface FileEditPlan {
+  filePath: string;
+  /** The response creates this file rather than editing it */
+  isNew: boolean;
+  hunks: EditHunk[];
+}
+
+const SEARCH_MARKER = /^<{5,9} ?SEARCH\s*$/;
+const DIVIDER_MARKER = /^={5,9}\s*$/;
+const REPLACE_MARKER = /^>{5,9} ?REPLACE\s*$/;
+
+// How many non-empty lines above a SEARCH marker may hold the file path
+const MAX_PATH_LOOKBACK = 3;
+
+/**
+ * Parse the edits in a model response. Two formats are understood:
+ * SEARCH/REPLACE blocks preceded by the file path (on its own line or in the code fence header),
+ * and unified diffs with "--- a/path" / "+++ b/path" headers.
+ */
+export function parseEditPlan(text: string): FileEditPlan[] {
+  const plans = new Map<string, FileEditPlan>();
+  const lines = text.split(/\r?\n/);
+
+  const addHunk = (filePath: string, hunk: EditHunk, isNew: boolean) => {
+    let plan = plans.get(filePath);
+    if (!plan) {
+      plan = { filePath, isNew, hunks: [] };
+      plans.set(filePath, plan);
+    }
+    plan.hunks.push(hunk);
+  };
+
+  parseSearchReplaceBlocks(lines, addHunk);
+  parseUnifiedDiffs(lines, addHunk);
+
+  return Array.from(plans.values());
+}
+
+/**
+ * Check whether text contains SEARCH/REPLACE markers or unified diff headers,
+ * i.e. describes edits rather than being code that can be inserted as is
+ */
+export function containsEditMarkers(text: string): boolean {
+  const lines = text.split(/\r?\n/);
+  return lines.some((line, i) =>
+    SEARCH_MARKER.test(line) || (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ '))
+  );
+}
+
+/**
+ * Apply hunks to file content in order
+ * @returns The new content and the indexes of hunks whose search text was not found
+ */
+export function applyHunks(content: string, hunks: EditHunk[]): { content: string; failed: number[] } {
+  // Work on LF line endings and restore CRLF afterwards, since models always answer with LF
+  const crlf = content.includes('\r\n');
+  let result = crlf ? content.replace(/\r\n/g, '\n') : content;
+  const failed: number[] = [];
+
+  hunks.forEach((hunk, index) => {
+    const updated = applyHunk(result, hunk);
+    if (updated === undefined) {
+      failed.push(index);
+    } else {
+      result = updated;
+    }
+  });
+
+  return { content: crlf ? result.replace(/\n/g, '\r\n') : result, failed };
+}
+
+/**
+ * Apply a single hunk to LF-normalized content
+ * @returns undefined if the search text is not found
+ */
+export function applyHunk(content: string, hunk: EditHunk): string | undefined {
+  if (hunk.search.trim() === '') {
+    if (!content) {
+      return hunk.replace;
+    }
+    return `${content}${content.endsWith('\n') ? '' : '\n'}${hunk.replace}`;
+  }
+
+  const index = content.indexOf(hunk.search);
+  if (index !== -1) {
+    return content.substring(0, index) + hunk.replace + content.substring(index + hunk.search.length);
+  }
+
+  // Models often get trailing whitespace wrong, so fall back to comparing trimmed line ends
+  const contentLines = content.split('\n');
+  const searchLines = hunk.search.replace(/\n$/, '').split('\n');
+  const normalize = (line: string) => line.replace(/\s+$/, '');
+
+  for (let start = 0; start + searchLines.length <= contentLines.length; start++) {
+    const matches = searchLines.every((line, offset) => normalize(line) === normalize(contentLines[start + offset]));
+    if (matches) {
+      const replaceLines = hunk.replace === '' ? [] : hunk.replace.replace(/\n$/, '').split('\n');
+      contentLines.splice(start, searchLines.length, ...replaceLines);
+      return contentLines.join('\n');
+    }
+  }
+
+  return undefined;
+}
+
+function parseSearchReplaceBlocks(
+  lines: string[],
+  addHunk: (filePath: string, hunk: EditHunk, isNew: boolean) => void
+): void {
+  let previousPath: string | undefined;
+  let previousEnd = -1;
+  let i = 0;
+  while (i < lines.length) {
+    if (!SEARCH_MARKER.test(lines[i])) {
+      i++;
+      continue;
+    }
+
+    // Consecutive blocks without their own path edit the same file as the block before them
+    const followsPrevious = previousEnd >= 0 && lines.slice(previousEnd + 1, i).every(line => line.trim() === '');
+    const filePath = followsPrevious ? previousPath : findPrecedingPath(lines, i);
+    const search: string[] = [];
+    const replace: string[] = [];
+
+    let j = i + 1;
+    while (j < lines.length && !DIVIDER_MARKER.test(lines[j])) {
+      search.push(lines[j++]);
+    }
+    j++;
+    while (j < lines.length && !REPLACE_MARKER.test(lines[j])) {
+      replace.push(lines[j++]);
+    }
+    if (j >= lines.length) {
+      // Unterminated block, e.g. a truncated response
+      return;
+    }
+
+    if (filePath) {
+      const hunk = { search: search.join('\n'), replace: replace.join('\n') };
+      addHunk(filePath, hunk, hunk.search.trim() === '');
+    }
+    previousPath = filePath;
+    previousEnd = j;
+    i = j + 1;
+  }
+}
+
+function parseUnifiedDiffs(
+  lines: string[],
+  addHunk: (filePath: string, hunk: EditHunk, isNew: boolean) => void
+): void {
+  let i = 0;
+  while (i < lines.length - 1) {
+    if (!lines[i].startsWith('--- ') || !lines[i + 1].startsWith('+++ ')) {
+      i++;
+      continue;
+    }
+
+    const oldPath = parseDiffPath(lines[i].substring(4));
+    const newPath = parseDiffPath(lines[i + 1].substring(4));
+    i += 2;
+
+    // File deletions are not supported
+    if (newPath === '/dev/null') {
+      continue;
+    }
+    const isNew = oldPath === '/dev/null';
+
+    while (i < lines.length && lines[i].startsWith('@@')) {
+      i++;
+      const oldLines: string[] = [];
+      const newLines: string[] = [];
+
+      while (i < lines.length && isHunkLine(lines, i)) {
+        const line = lines[i++];
+        const marker = line.charAt(0);
+        const body = line.substring(1);
+        if (marker === '\\') {
+          // "\ No newline at end of file"
+          continue;
+        }
+        if (marker !== '+') {
+          oldLines.push(body);
+        }
+        if (marker !== '-') {
+          newLines.push(body);
+        }
+      }
+
+      addHunk(newPath, { search: oldLines.join('\n'), replace: newLines.join('\n') }, isNew);
+    }
+  }
+}
+
+/**
+ * Check whether a line belongs to the current diff hunk
+ */
+function isHunkLine(lines: string[], index: number): boolean {
+  const line = lines[index];
+  if (line.startsWith('--- ') && lines[index + 1]?.startsWith('+++ ')) {
+    return false;
+  }
+  if (line === '') {
+    // Models often drop the space of empty context lines; only count them inside a hunk
+    const next = lines[index + 1];
+    return next !== undefined && /^[ +-]/.test(next) && !next.startsWith('--- ');
+  }
+  return /^[ +\-\\]/.test(line);
+}
+
+function parseDiffPath(header: string): string {
+  // Drop the optional timestamp and the a/ or b/ prefix
+  const filePath = header.split('\t')[0].trim();
+  return filePath.replace(/^[ab]\//, '');
+}
+
+/**
+ * Find the file path written just above a SEARCH marker, either on its own line
+ * or in the header of the code fence that contains the block
+ */
+function findPrecedingPath(lines: string[], markerIndex: number): string | undefined {
+  let checked = 0;
+  for (let i = markerIndex - 1; i >= 0 && checked < MAX_PATH_LOOKBACK; i--) {
+    const line = lines[i].trim();
+    if (!line) {
+      continue;
+    }
+    checked++;
+
+    if (line.startsWith('```')) {
+      const fromHeader = line.substring(3).split(/\s+/).map(cleanPath).find(isPathLike);
+      if (fromHeader) {
+        return fromHeader;
+      }
+      continue;
+    }
+
+    const candidate = cleanPath(line.replace(/^(?:#+\s*)?(?:file(?:name)?|path)\s*:\s*/i, ''));
+    return isPathLike(candidate) ? candidate : undefined;
+  }
+  return undefined;
+}
+
+function cleanPath(token: string): string {
+  return token
+    .replace(/^(?:file|path|title)=/, '')
+    .replace(/^\w+:(?=[^/\\])/, '')
+    .replace(/^[`*'"]+|[`*'":]+$/g, '');
+}
+
+function isPathLike(token: string): boolean {
+  return /^[^\s`*'"<>|]+$/.test(token) && (/[/\\]/.test(token) || /\.\w+$/.test(token));
+}
@@ -0,0 +1,58 @@
+/**
+ * A size-bounded cache that evicts the least recently used entry,
+ * with an optional time-to-live per entry
+ */
+export class LRUCache<K, V> {
+  // Map iteration order is insertion order, so the first key is the least recently used
+  private entries: Map<K, { value: V; expiresAt: number }> = new Map();
+
+  /**
+   * @param maxSize Maximum number of entries
+   * @param ttlMs Time in milliseconds after which an entry expires; 0 to never expire
+   */
+  constructor(private maxSize: number, private ttlMs: number = 0) {}
+
+  get(key: K): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt > 0 && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Move to the most recently used position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: K, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      expiresAt: this.ttlMs > 0 ? Date.now() + this.ttlMs : 0
+    });
+
+    while (this.entries.size > this.maxSize) {
+      const oldest = this.entries.keys().next().value as K;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Change the time-to-live of entries added from now on
+   */
+  setTTL(ttlMs: number): void {
+    this.ttlMs = ttlMs;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
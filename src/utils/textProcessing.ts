@@ -0,0 +1,267 @@
+/**
+ * Split an identifier into its camelCase, PascalCase and snake_case parts
+ * @example splitIdentifier('parseHTTPResponse_v2') // ['parse', 'HTTP', 'Response', 'v2']
+ */
+export function splitIdentifier(identifier: string): string[] {
+  return identifier
+    .split(/[_$]+/)
+    .flatMap(part => part.match(/[A-Z]+(?=[A-Z][a-z])|[A-Z]?[a-z]+\d*|[A-Z]+\d*|\d+/g) || []);
+}
+
+/**
+ * Tokenize source code or a natural language query for lexical search.
+ * Compound identifiers produce their lowercased parts plus the whole identifier,
+ * so exact identifier matches score higher than matches on a single part.
+ */
+export function tokenizeCode(text: string): string[] {
+  const tokens: string[] = [];
+  const identifiers = text.match(/[A-Za-z_$][\w$]*/g) || [];
+
+  for (const identifier of identifiers) {
+    const parts = splitIdentifier(identifier);
+    if (parts.length > 1) {
+      tokens.push(identifier.toLowerCase());
+    }
+    for (const part of parts) {
+      // Single characters are mostly loop variables and carry no meaning
+      if (part.length > 1) {
+        tokens.push(part.toLowerCase());
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Extract the contents of the first fenced code block in a model response.
+ * Returns the trimmed response if it has no code block.
+ */
+export function extractCodeBlock(text: string): string {
+  const match = text.match(/```[^\n`]*\n([\s\S]*?)```/);
+  return match ? match[1].replace(/\n$/, '') : text.trim();
+}
+
+/**
+ * How much code an inline completion may insert
+ */
+export type CompletionMode = 'single-line' | 'multi-line';
+
+export interface CompletionContext {
+  /** Code before the cursor */
+  prefix: string;
+  /** Code after the cursor */
+  suffix: string;
+  mode: CompletionMode;
+}
+
+const OPENING_BRACKETS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+const CLOSING_BRACKETS = new Set(Object.values(OPENING_BRACKETS));
+
+// Overlaps shorter than this are too likely to be coincidental
+const MIN_OVERLAP = 4;
+
+const COMMENT_LINE = /^\s*(?:\/\/|#|\/\*|\*|--|<!--|"""|''')/;
+const BLOCK_OPENER = /(?:[{([:]|=>)\s*$/;
+
+/**
+ * Decide from the cursor position whether to complete the rest of the line or a whole block.
+ * In the middle of a line only the line is completed. On an empty line after a block opener
+ * or a comment, and at the end of a line that opens a block, the block is completed.
+ */
+export function decideCompletionMode(prefix: string, suffix: string): CompletionMode {
+  const lines = prefix.split('\n');
+  const linePrefix = lines[lines.length - 1];
+  const lineSuffix = suffix.split('\n')[0];
+
+  // Closing brackets and punctuation after the cursor don't make it the middle of a line
+  if (/[^\s)\]}'"`;,]/.test(lineSuffix)) {
+    return 'single-line';
+  }
+
+  if (linePrefix.trim() === '') {
+    const previousLine = lines.slice(0, -1).reverse().find(line => line.trim() !== '') ?? '';
+    return BLOCK_OPENER.test(previousLine) || COMMENT_LINE.test(previousLine) ? 'multi-line' : 'single-line';
+  }
+
+  // At the end of a comment, only finish the comment
+  if (COMMENT_LINE.test(linePrefix)) {
+    return 'single-line';
+  }
+  return BLOCK_OPENER.test(linePrefix) ? 'multi-line' : 'single-line';
+}
+
+/**
+ * Clean up a raw model completion before it is inserted at the cursor:
+ * strip markdown and prose, drop text that repeats the code before or after the cursor,
+ * cut at the end of the current line or block, and keep brackets balanced with the suffix.
+ * @returns The text to insert; empty if nothing useful is left
+ */
+export function postProcessCompletion(completion: string, context: CompletionContext): string {
+  let text = stripMarkdown(completion.replace(/\r\n/g, '\n'));
+  text = removePrefixOverlap(text, context.prefix);
+  text = truncateToBlock(text, context.prefix, context.mode);
+  text = balanceBrackets(text, context.suffix);
+  text = removeSuffixOverlap(text, context.suffix);
+  text = text.replace(/\s+$/, '');
+  return text.trim() ? text : '';
+}
+
+/**
+ * Remove code fences and a leading sentence such as "Here is the code:"
+ */
+function stripMarkdown(text: string): string {
+  // The closing fence is often missing because "```" is a stop sequence
+  const fenced = text.match(/```[^\n`]*\n([\s\S]*?)(?:```|$)/);
+  if (fenced) {
+    return fenced[1];
+  }
+  return text.replace(/^\s*(?:here(?:'s| is)|sure|certainly)\b[^\n]*:[ \t]*\n/i, '');
+}
+
+/**
+ * Drop the start of the completion if it repeats the code before the cursor
+ */
+function removePrefixOverlap(text: string, prefix: string): string {
+  // Models often restart the current line
+  const linePrefix = prefix.substring(prefix.lastIndexOf('\n') + 1).trimStart();
+  if (linePrefix.length >= MIN_OVERLAP && text.trimStart().startsWith(linePrefix)) {
+    return text.trimStart().substring(linePrefix.length);
+  }
+
+  // Or repeat a longer stretch of the prefix
+  for (let length = Math.min(text.length, prefix.length); length >= MIN_OVERLAP * 4; length--) {
+    if (prefix.endsWith(text.substring(0, length))) {
+      return text.substring(length);
+    }
+  }
+  return text;
+}
+
+/**
+ * Cut the completion at the end of the current line (single-line mode)
+ * or at the end of the block the cursor is in (multi-line mode)
+ */
+function truncateToBlock(text: string, prefix: string, mode: CompletionMode): string {
+  const lines = text.split('\n');
+
+  if (mode === 'single-line') {
+    // When the cursor is at the end of a line, the completion starts with a line break
+    const end = lines[0].trim() === '' && lines.length > 1 ? 2 : 1;
+    return lines.slice(0, end).join('\n');
+  }
+
+  const linePrefix = prefix.substring(prefix.lastIndexOf('\n') + 1);
+  const baseIndent = getIndentation(linePrefix);
+  // After a line that opens a block, the block ends when the indentation returns to the current level
+  const opensBlock = /[{([:]\s*$/.test(linePrefix + lines[0]);
+  const result = [lines[0]];
+
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.trim() === '') {
+      // A blank line after a blank line ends the block
+      if (result[result.length - 1].trim() === '' && result.length > 1) {
+        break;
+      }
+      result.push(line);
+      continue;
+    }
+
+    const indent = getIndentation(line);
+    if (indent < baseIndent || (opensBlock && indent <= baseIndent)) {
+      // Keep the line that closes the block, but nothing after it
+      if (CLOSING_BRACKETS.has(line.trim().charAt(0))) {
+        result.push(line);
+      }
+      break;
+    }
+    result.push(line);
+  }
+
+  return result.join('\n');
+}
+
+/**
+ * Cut the completion before it closes brackets that the code after the cursor already closes,
+ * or before a closing bracket that does not match
+ */
+function balanceBrackets(text: string, suffix: string): string {
+  const stack: string[] = [];
+  const nextInSuffix = suffix.trimStart().charAt(0);
+  let quote: string | undefined;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quote) {
+      if (char === '\\') {
+        i++;
+      } else if (char === quote || (char === '\n' && quote !== '`')) {
+        quote = undefined;
+      }
+      continue;
+    }
+    if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+      continue;
+    }
+    if (char === '/' && text[i + 1] === '/') {
+      // Skip line comments
+      const end = text.indexOf('\n', i);
+      i = end === -1 ? text.length : end;
+      continue;
+    }
+
+    if (OPENING_BRACKETS[char]) {
+      stack.push(OPENING_BRACKETS[char]);
+    } else if (CLOSING_BRACKETS.has(char)) {
+      if (stack.length === 0) {
+        // Closes a bracket opened before the cursor; if the suffix closes it too, the rest is a duplicate
+        if (char === nextInSuffix) {
+          return text.substring(0, i);
+        }
+      } else if (stack.pop() !== char) {
+        return text.substring(0, i);
+      }
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Drop the end of the completion if it repeats the start of the code after the cursor
+ */
+function removeSuffixOverlap(text: string, suffix: string): string {
+  const suffixStart = suffix.trimStart();
+  const trimmed = text.replace(/\s+$/, '');
+
+  for (let length = Math.min(trimmed.length, suffixStart.length); length >= MIN_OVERLAP; length--) {
+    if (trimmed.endsWith(suffixStart.substring(0, length))) {
+      return trimmed.substring(0, trimmed.length - length);
+    }
+  }
+  return text;
+}
+
+function getIndentation(line: string): number {
+  const match = line.match(/^[ \t]*/);
+  return match ? match[0].replace(/\t/g, '    ').length : 0;
+}
+
+/**
+ * Get the next word of a suggestion, with the whitespace before it
+ */
+export function getNextWord(text: string): string {
+  const match = text.match(/^\s*(?:[\w$]+|[^\w\s$]+)/);
+  return match ? match[0] : text;
+}
+
+/**
+ * Get the rest of the current line of a suggestion, or the next line if it starts with a line break
+ */
+export function getNextLine(text: string): string {
+  const match = text.match(/^\n?[^\n]*/);
+  return match && match[0] ? match[0] : text;
+}